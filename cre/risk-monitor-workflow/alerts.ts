@@ -0,0 +1,184 @@
+/**
+ * Webhook Alerts
+ *
+ * POSTs a JSON alert to the configured webhooks when a run leaves a vault in
+ * ORANGE or RED, brings it back out, or fails to land its report. The alert
+ * is built from the target's run report, after the write, so nothing here
+ * can hold up or fail the on-chain action: every endpoint is tried on its
+ * own and a failure is logged as a warning.
+ *
+ * Runs keep no memory between ticks, so deduplication compares the status
+ * with the one the vault last recorded on-chain (RunRisk.previousStatus).
+ * Every DON node POSTs the same alert; the request is cached so
+ * the endpoint sees one delivery per alert rather than one per node.
+ */
+
+import {
+  consensusIdenticalAggregation,
+  type ConsensusAggregation,
+  type HTTPSendRequester,
+  type Runtime,
+} from "@chainlink/cre-sdk";
+import type { AlertConfig, AlertSeverity, Config } from "./config";
+import { STATUS_LABELS, type RiskResult } from "./risk-model";
+import type { RunOutcome, TargetRunReport } from "./run-report";
+
+/**
+ * The HTTPClient call alerts make: sendRequest() running a function on each
+ * node. The simulation harness fakes this.
+ */
+export interface HTTPClient {
+  sendRequest<TArgs extends unknown[], TOutput>(
+    runtime: Runtime<unknown>,
+    fn: (sendRequester: SendRequester, ...args: TArgs) => TOutput,
+    consensusAggregation: ConsensusAggregation<TOutput, TOutput, true>
+  ): (...args: TArgs) => { result: () => TOutput };
+}
+
+/** The node-mode requester that function is handed */
+export type SendRequester = Pick<HTTPSendRequester, "sendRequest">;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Alert Payload
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface RiskAlert {
+  severity: AlertSeverity;
+  /** "status" on entering or staying in ORANGE/RED, "resolved" on leaving it */
+  kind: "status" | "resolved" | "tx_failed";
+  vault: string;
+  chain: string;
+  /** Status labels; `from` is unset before the vault recorded one */
+  status: { from?: string; to: string };
+  action: RiskResult["action"];
+  outcome: RunOutcome;
+  stressedLCR: number;
+  txHash?: `0x${string}`; // set when the report landed
+  error?: string; // set when it did not
+  timestamp: string; // ISO 8601, the target's finishedAt
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+  info: 0,
+  warning: 1,
+  critical: 2,
+};
+
+// How long DON nodes reuse the first node's response to an identical POST
+const CACHE_MAX_AGE = "60s";
+
+/**
+ * The alert a target's run raises, or null when there is nothing to say.
+ * Escalating to a new emergency rung counts as a change while RED. Runs
+ * that stopped before the model ran carry no status and raise none.
+ */
+export function buildAlert(
+  report: TargetRunReport,
+  dedupe: AlertConfig["dedupe"]
+): RiskAlert | null {
+  const { risk } = report;
+  if (!risk) return null;
+
+  // A vault without a snapshot has never left GREEN
+  const from = risk.previousStatus ?? 0;
+  const to = risk.systemStatus;
+  const changed = from !== to;
+
+  let severity: AlertSeverity;
+  let kind: RiskAlert["kind"];
+  if (report.outcome === "error_tx_failed") {
+    severity = "critical";
+    kind = "tx_failed";
+  } else if (
+    to >= 2 &&
+    (changed || dedupe === "every-run" || risk.action === "EMERGENCY_PAUSE")
+  ) {
+    severity = to === 3 ? "critical" : "warning";
+    kind = "status";
+  } else if (from >= 2 && to < 2) {
+    severity = "info";
+    kind = "resolved";
+  } else {
+    return null;
+  }
+
+  return {
+    severity,
+    kind,
+    vault: report.vaultAddress,
+    chain: report.chainSelectorName,
+    status: {
+      ...(risk.previousStatus !== undefined && {
+        from: STATUS_LABELS[risk.previousStatus],
+      }),
+      to: STATUS_LABELS[to],
+    },
+    action: risk.action,
+    outcome: report.outcome,
+    stressedLCR: risk.stressedLCR,
+    ...(report.txHash && { txHash: report.txHash }),
+    ...(report.error && { error: report.error }),
+    timestamp: report.finishedAt,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Delivery
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** POSTs the JSON body (base64) and returns the response status code */
+const postAlert = (
+  sendRequester: SendRequester,
+  url: string,
+  body: string
+): number =>
+  sendRequester
+    .sendRequest({
+      url,
+      method: "POST",
+      multiHeaders: { "Content-Type": { values: ["application/json"] } },
+      body,
+      cacheSettings: { store: true, maxAge: CACHE_MAX_AGE },
+    })
+    .result().statusCode;
+
+/**
+ * Sends the alert for `report`, if it raises one, to every endpoint whose
+ * minSeverity it meets. Never throws.
+ */
+export function sendAlerts(
+  runtime: Runtime<Config>,
+  httpClient: HTTPClient,
+  alerts: AlertConfig,
+  report: TargetRunReport
+): void {
+  const alert = buildAlert(report, alerts.dedupe);
+  if (!alert) return;
+
+  const body = Buffer.from(JSON.stringify(alert)).toString("base64");
+  const endpoints = alerts.endpoints.filter(
+    (e) => SEVERITY_RANK[alert.severity] >= SEVERITY_RANK[e.minSeverity]
+  );
+  runtime.log(
+    `[Alert] ${alert.severity} ${alert.kind} (${alert.status.from ?? "-"} → ${alert.status.to}) to ${endpoints.length} endpoint(s)`
+  );
+
+  for (const { url } of endpoints) {
+    try {
+      const statusCode = httpClient
+        .sendRequest(
+          runtime,
+          postAlert,
+          consensusIdenticalAggregation<number>()
+        )(url, body)
+        .result();
+      if (statusCode < 200 || statusCode >= 300) {
+        runtime.log(`  [WARN] Alert to ${url} answered HTTP ${statusCode}`);
+      }
+    } catch (err) {
+      runtime.log(
+        `  [WARN] Alert to ${url} failed: ${err instanceof Error ? err.message : err}`
+      );
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import { parseSnapshots, runBacktest, type BacktestSnapshot } from "./backtest";
+import { DEFAULT_RISK_POLICY } from "./risk-policy";
+
+const AAVE = "0x0724eafD693c2c7F07fafa321b1bF75D2572f190";
+const MORPHO = "0x9197eC25246b992797C4DADc479874Cb0c473AeD";
+const NOW = 1_770_000_000;
+const U = (n: number) => BigInt(n) * 1_000_000n;
+
+/** A healthy tick, or the Morpho crunch with a withdrawal queue when `red` */
+const snapshot = (timestamp: number, red: boolean): BacktestSnapshot => ({
+  timestamp,
+  health: {
+    sources: [
+      {
+        address: AAVE,
+        kind: "aave-v3",
+        utilizationBps: red ? 8800 : 6500,
+        availableLiquidity: U(450_000),
+        oracleDeviationBps: 0,
+      },
+      {
+        address: MORPHO,
+        kind: "morpho-blue",
+        utilizationBps: red ? 9700 : 7000,
+        availableLiquidity: U(red ? 20_000 : 300_000),
+        oracleDeviationBps: 0,
+      },
+    ],
+  },
+  vault: {
+    totalAssets: U(1_000_000),
+    idleBalance: U(red ? 50_000 : 450_000),
+    pendingWithdrawals: U(red ? 330_000 : 0),
+    currentEpochId: 3,
+    currentEpochStart: timestamp - 600,
+    epochMinDuration: 3600,
+    sources: [
+      { address: AAVE, kind: "aave-v3", balance: U(red ? 450_000 : 300_000) },
+      {
+        address: MORPHO,
+        kind: "morpho-blue",
+        balance: U(red ? 500_000 : 250_000),
+      },
+    ],
+    observations: [],
+  },
+});
+
+// 30 minutes healthy, 90 minutes RED, 30 minutes healthy, every 5 minutes
+const history = Array.from({ length: 30 }, (_, i) =>
+  snapshot(NOW + i * 300, i >= 6 && i < 24)
+);
+
+describe("runBacktest", () => {
+  test("a RED episode: time in each status, reports, pauses and gas ceiling", () => {
+    const { series, summary } = runBacktest(history, {
+      gasLimit: 500_000n,
+    });
+
+    expect(summary.secondsInStatus).toEqual([3300, 0, 0, 5400]);
+    // A routine update every sample period, one pause for the episode
+    expect(summary.actions).toEqual({
+      NONE: 25,
+      UPDATE_PARAMS: 4,
+      REBALANCE: 0,
+      EMERGENCY_PAUSE: 1,
+      SETTLE_EPOCH: 0,
+    });
+    expect(summary.reports).toBe(5);
+    expect(summary.pauses).toBe(1);
+    expect(summary.gasCeiling).toBe(2_500_000n);
+    expect(summary.policyVersion).toBe(DEFAULT_RISK_POLICY.version);
+    expect(series[6]).toMatchObject({
+      systemStatus: 3,
+      action: "EMERGENCY_PAUSE",
+      severity: 2,
+    });
+    expect(Object.keys(series[0].scores)).toEqual([AAVE, MORPHO]);
+  });
+
+  test("a candidate ladder escalates on the RED streak it carried", () => {
+    // Rungs past HALT_DEPOSITS wait for time in RED only
+    const policy = {
+      ...DEFAULT_RISK_POLICY,
+      version: "time-only-ladder",
+      emergencyLadder: DEFAULT_RISK_POLICY.emergencyLadder.map((rung) => ({
+        ...rung,
+        lcrBelow: rung.severity === 0 ? rung.lcrBelow : 0,
+      })),
+    };
+    const { series, summary } = runBacktest(history, {
+      policy,
+      gasLimit: 500_000n,
+    });
+
+    const pauses = series.filter((t) => t.action === "EMERGENCY_PAUSE");
+    expect(pauses.map((t) => [t.timestamp - NOW, t.severity])).toEqual([
+      [1800, 0],
+      [2700, 1],
+      [5400, 2],
+    ]);
+    expect(summary.pauses).toBe(3);
+  });
+});
+
+describe("parseSnapshots", () => {
+  const line = (timestamp: number) =>
+    JSON.stringify(snapshot(timestamp, false), (_, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    );
+
+  test("reads amounts back as bigint", () => {
+    const [parsed] = parseSnapshots(`${line(NOW)}\n\n`);
+
+    expect(parsed).toEqual(snapshot(NOW, false));
+  });
+
+  test("rejects snapshots out of timestamp order", () => {
+    expect(() => parseSnapshots(`${line(NOW)}\n${line(NOW)}`)).toThrow(
+      `line 2: timestamp ${NOW} is not after ${NOW}`
+    );
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Risk Model Backtest
+ *
+ * Replays computeRiskModel() over historical snapshots, with the config's
+ * policy or a candidate one, and writes the time series of scores, stressed
+ * LCR, status and action it would have produced. The summary gives the time
+ * spent in each status, the pauses and the gas ceiling of the reports, so a
+ * threshold change can be weighed before it ships.
+ *
+ * The vault state the model writes itself — the last snapshot, each
+ * source's params, the emergency streak and the observation ring — is
+ * carried from one simulated report to the next instead of taken from the
+ * recording, so hysteresis, escalation and trends follow the policy under
+ * test.
+ *
+ * Input is JSONL, one snapshot per line, in timestamp order:
+ *   {"timestamp": 1770200000, "health": <ProtocolHealth>, "vault": <VaultState>}
+ * Amounts (balances, liquidity, market and reserve amounts, TVL) are decimal
+ * strings, as in the run report.
+ *
+ * Usage:
+ *   bun backtest.ts --config config.json --input history.jsonl \
+ *     --out series.jsonl [--policy candidate-policy.json] [--gas-limit 500000]
+ *
+ * The gas ceiling is reports × the onReport gas limit, which defaults to the
+ * first target's gasLimit. It bounds what the reports could cost, not what
+ * they would have used.
+ */
+
+import { parseConfig } from "./config";
+import { decodeReportPayload } from "./report-decoder";
+import {
+  computeRiskModel,
+  STATUS_LABELS,
+  type ProtocolHealth,
+  type RiskResult,
+  type SourcePosition,
+  type StressScenario,
+  type VaultState,
+} from "./risk-model";
+import {
+  checkRiskPolicy,
+  DEFAULT_RISK_POLICY,
+  hashRiskPolicy,
+  withPolicyDefaults,
+  type RiskPolicy,
+} from "./risk-policy";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Type Definitions
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface BacktestSnapshot {
+  timestamp: number; // unix seconds, passed to the model as its clock
+  health: ProtocolHealth;
+  vault: VaultState;
+}
+
+/** One line of the output series */
+export interface BacktestTick {
+  timestamp: number;
+  scores: Record<string, number>; // source address → score
+  stressedLCR: number;
+  bindingScenario: string;
+  systemStatus: RiskResult["systemStatus"];
+  action: RiskResult["action"];
+  severity?: number; // set while RED
+  degraded: boolean;
+}
+
+export interface BacktestSummary {
+  snapshots: number;
+  policyVersion: string;
+  policyHash: `0x${string}`;
+  // Seconds from each snapshot to the next, by the status it produced
+  secondsInStatus: [number, number, number, number];
+  actions: Record<RiskResult["action"], number>;
+  reports: number; // ticks that wrote, i.e. every action but NONE
+  pauses: number; // EMERGENCY_PAUSE reports
+  gasCeiling: bigint; // reports × gasLimit, not gas used
+}
+
+export interface BacktestOptions {
+  policy?: RiskPolicy;
+  scenarios?: StressScenario[];
+  gasLimit: bigint; // onReport gas limit per report
+}
+
+/** Vault fields the model's own reports write, carried between ticks */
+type CarriedState = Pick<
+  VaultState,
+  "lastSnapshot" | "emergency" | "observations"
+> & {
+  params: Map<string, SourcePosition["currentParams"]>;
+};
+
+// Keys whose decimal-string values are parsed as bigint
+const BIGINT_KEYS = new Set([
+  "totalAssets",
+  "idleBalance",
+  "pendingWithdrawals",
+  "balance",
+  "availableLiquidity",
+  "totalSupplyAssets",
+  "totalSupplyShares",
+  "totalBorrowAssets",
+  "totalBorrowShares",
+  "borrowRate",
+  "lltv",
+  "collateralPrice",
+  "supplyCap",
+  "totalSupplied",
+  "liquidityIndex",
+]);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Backtest
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Parses the JSONL input; throws "line <n>: <problem>" on a bad line */
+export function parseSnapshots(text: string): BacktestSnapshot[] {
+  const snapshots: BacktestSnapshot[] = [];
+  text.split("\n").forEach((line, i) => {
+    if (line.trim() === "") return;
+    let snapshot: BacktestSnapshot;
+    try {
+      snapshot = JSON.parse(line, (key, value) =>
+        BIGINT_KEYS.has(key) && typeof value === "string"
+          ? BigInt(value)
+          : value
+      );
+    } catch (err) {
+      throw new Error(
+        `line ${i + 1}: ${err instanceof Error ? err.message : err}`
+      );
+    }
+    if (!Number.isInteger(snapshot.timestamp)) {
+      throw new Error(`line ${i + 1}: timestamp must be unix seconds`);
+    }
+    if (!snapshot.health || !snapshot.vault) {
+      throw new Error(`line ${i + 1}: expected { timestamp, health, vault }`);
+    }
+    const previous = snapshots.at(-1);
+    if (previous && snapshot.timestamp <= previous.timestamp) {
+      throw new Error(
+        `line ${i + 1}: timestamp ${snapshot.timestamp} is not after ${previous.timestamp}`
+      );
+    }
+    snapshots.push(snapshot);
+  });
+  return snapshots;
+}
+
+/** Runs the model over every snapshot in order */
+export function runBacktest(
+  snapshots: BacktestSnapshot[],
+  { policy = DEFAULT_RISK_POLICY, scenarios, gasLimit }: BacktestOptions
+): { series: BacktestTick[]; summary: BacktestSummary } {
+  if (snapshots.length === 0) {
+    throw new Error("No snapshots to replay");
+  }
+
+  // The recording's own model-written state seeds the first tick
+  const first = snapshots[0].vault;
+  let state: CarriedState = {
+    lastSnapshot: first.lastSnapshot,
+    emergency: first.emergency,
+    observations: first.observations ?? [],
+    params: new Map(
+      first.sources.map((s) => [s.address.toLowerCase(), s.currentParams])
+    ),
+  };
+
+  const summary: BacktestSummary = {
+    snapshots: snapshots.length,
+    policyVersion: policy.version,
+    policyHash: hashRiskPolicy(policy),
+    secondsInStatus: [0, 0, 0, 0],
+    actions: {
+      NONE: 0,
+      UPDATE_PARAMS: 0,
+      REBALANCE: 0,
+      EMERGENCY_PAUSE: 0,
+      SETTLE_EPOCH: 0,
+    },
+    reports: 0,
+    pauses: 0,
+    gasCeiling: 0n,
+  };
+
+  const series = snapshots.map(({ timestamp, health, vault }, i) => {
+    const result = computeRiskModel(
+      health,
+      {
+        ...vault,
+        sources: vault.sources.map((s) => ({
+          ...s,
+          currentParams: state.params.get(s.address.toLowerCase()),
+        })),
+        lastSnapshot: state.lastSnapshot,
+        emergency: state.emergency,
+        observations: state.observations,
+      },
+      timestamp,
+      scenarios,
+      policy
+    );
+
+    const next = snapshots[i + 1];
+    if (next) {
+      summary.secondsInStatus[result.systemStatus] +=
+        next.timestamp - timestamp;
+    }
+    summary.actions[result.action]++;
+    if (result.action !== "NONE") {
+      summary.reports++;
+      summary.gasCeiling += gasLimit;
+      state = applyReport(state, result, timestamp, policy);
+    }
+    if (result.action === "EMERGENCY_PAUSE") summary.pauses++;
+
+    return {
+      timestamp,
+      scores: Object.fromEntries(
+        result.sourceScores.map((s) => [s.address, s.score])
+      ),
+      stressedLCR: result.stressedLCR,
+      bindingScenario: result.bindingScenario,
+      systemStatus: result.systemStatus,
+      action: result.action,
+      ...(result.emergency && { severity: result.emergency.severity }),
+      degraded: result.degraded,
+    };
+  });
+
+  return { series, summary };
+}
+
+/**
+ * What the vault holds after `result`'s report lands. Every report but a
+ * pause stores its snapshot and ends the RED streak; only UPDATE_PARAMS also
+ * stores params and an observation.
+ */
+function applyReport(
+  state: CarriedState,
+  result: RiskResult,
+  timestamp: number,
+  policy: RiskPolicy
+): CarriedState {
+  const report = decodeReportPayload(result.encodedPayload);
+  if (report.action === "EMERGENCY_PAUSE") {
+    return {
+      ...state,
+      emergency: {
+        severity: report.severity,
+        redSince: Number(report.redSince),
+      },
+    };
+  }
+
+  const next: CarriedState = {
+    ...state,
+    emergency: { severity: 0, redSince: 0 },
+    lastSnapshot: {
+      stressedLCR: Number(report.snapshot.stressedLCR),
+      aggregateRiskScore: Number(report.snapshot.aggregateRiskScore),
+      timestamp: Number(report.snapshot.timestamp),
+      systemStatus: report.snapshot.systemStatus,
+    },
+  };
+  if (report.action === "UPDATE_PARAMS") {
+    next.params = new Map(state.params);
+    report.sources.forEach((address, i) => {
+      const { lastUpdated: _, ...params } = report.params[i];
+      next.params.set(address.toLowerCase(), params);
+    });
+    // Older observations than the trend window are never read again
+    next.observations = [
+      ...(state.observations ?? []).filter(
+        (o) => timestamp - o.timestamp <= policy.trend.windowSeconds
+      ),
+      result.observation,
+    ];
+  }
+  return next;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CLI
+// ═══════════════════════════════════════════════════════════════════════════
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  return hours >= 24
+    ? `${Math.floor(hours / 24)}d ${hours % 24}h`
+    : `${hours}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+/** The summary as printed by the CLI */
+export function formatSummary(summary: BacktestSummary): string {
+  const total = summary.secondsInStatus.reduce((sum, s) => sum + s, 0);
+  const lines = [
+    `Policy ${summary.policyVersion} (${summary.policyHash})`,
+    `${summary.snapshots} snapshot(s) over ${formatDuration(total)}`,
+    "Time in status:",
+    ...summary.secondsInStatus.map((seconds, status) => {
+      const share = total > 0 ? ((seconds * 100) / total).toFixed(2) : "0.00";
+      return `  ${STATUS_LABELS[status].padEnd(7)} ${share.padStart(6)}%  ${formatDuration(seconds)}`;
+    }),
+    "Actions:",
+    ...Object.entries(summary.actions).map(
+      ([action, count]) => `  ${action.padEnd(16)} ${count}`
+    ),
+    `Reports: ${summary.reports}`,
+    `Pauses:  ${summary.pauses}`,
+    `Gas ceiling: ${summary.gasCeiling}`,
+  ];
+  return lines.join("\n");
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const flag = argv[i];
+    if (!flag.startsWith("--") || argv[i + 1] === undefined) {
+      throw new Error(`Expected --flag value pairs, got "${flag}"`);
+    }
+    args[flag.slice(2)] = argv[i + 1];
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  for (const required of ["config", "input", "out"]) {
+    if (!args[required]) throw new Error(`Missing --${required}`);
+  }
+
+  const config = parseConfig(await Bun.file(args.config).bytes());
+  let policy = config.riskPolicy;
+  if (args.policy) {
+    const candidate = await Bun.file(args.policy).json();
+    const issues = checkRiskPolicy(candidate, "policy");
+    if (issues.length > 0) {
+      throw new Error(`Invalid ${args.policy}:\n  ${issues.join("\n  ")}`);
+    }
+    policy = withPolicyDefaults(candidate);
+  }
+  const gasLimit = BigInt(args["gas-limit"] ?? config.targets[0].gasLimit);
+
+  const snapshots = parseSnapshots(await Bun.file(args.input).text());
+  const { series, summary } = runBacktest(snapshots, {
+    policy,
+    scenarios: config.stressScenarios,
+    gasLimit,
+  });
+
+  await Bun.write(
+    args.out,
+    series.map((tick) => JSON.stringify(tick)).join("\n") + "\n"
+  );
+  console.log(formatSummary(summary));
+  console.log(`Wrote ${series.length} tick(s) → ${args.out}`);
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
+}
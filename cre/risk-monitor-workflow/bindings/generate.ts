@@ -0,0 +1,157 @@
+/**
+ * Contract Binding Generator
+ *
+ * Writes bindings/contracts.ts from the Forge artifacts in the repo's out/
+ * directory. Each binding keeps only the ABI members the workflow uses, copied
+ * verbatim from the compiled contract, as `as const` literals — so calling a
+ * function the contract does not have, or with the wrong arguments, fails the
+ * TypeScript build. A member missing from its artifact fails generation.
+ *
+ * Usage (from the repo root, after `forge build`):
+ *   bun cre/risk-monitor-workflow/bindings/generate.ts [--check]
+ *
+ * --check regenerates in memory and exits non-zero when the checked-in file
+ * is out of date, for CI.
+ */
+
+import { join } from "node:path";
+
+interface Binding {
+  /** Exported constant name */
+  name: string;
+  /** Artifact path under out/, e.g. "StreamVault.sol/StreamVault.json" */
+  artifact: string;
+  /** Function and event names the workflow uses, in ABI output order */
+  members: string[];
+}
+
+export const BINDINGS: Binding[] = [
+  {
+    name: "STREAM_VAULT_ABI",
+    artifact: "StreamVault.sol/StreamVault.json",
+    members: [
+      "totalAssets",
+      "getYieldSources",
+      "getAllYieldSourceBalances",
+      "idleBalance",
+      "getPendingEpochWithdrawals",
+      "totalSupply",
+      "totalPendingShares",
+      "getCurrentEpochInfo",
+    ],
+  },
+  {
+    name: "STREAM_VAULT_EVENTS_ABI",
+    artifact: "StreamVault.sol/StreamVault.json",
+    members: ["WithdrawRequested", "DrawdownCircuitBreaker", "VaultPaused"],
+  },
+  {
+    name: "RISK_RECEIVER_ABI",
+    // StreamVault's IRiskReceiver surface, bound from the vault itself
+    artifact: "StreamVault.sol/StreamVault.json",
+    members: [
+      "onReport",
+      "getSourceRiskParams",
+      "getRiskSnapshot",
+      "getEmergencyState",
+      "getRiskObservations",
+      "supportsInterface",
+    ],
+  },
+  {
+    name: "AAVE_V3_YIELD_SOURCE_ABI",
+    artifact: "AaveV3YieldSource.sol/AaveV3YieldSource.json",
+    members: [
+      "getPoolUtilization",
+      "getAvailableLiquidity",
+      "getReserveState",
+    ],
+  },
+  {
+    name: "MORPHO_BLUE_YIELD_SOURCE_ABI",
+    artifact: "MorphoBlueYieldSource.sol/MorphoBlueYieldSource.json",
+    members: [
+      "getMarketUtilization",
+      "getAvailableLiquidity",
+      "getMarketState",
+    ],
+  },
+  {
+    name: "MOCK_YIELD_SOURCE_ABI",
+    artifact: "MockYieldSource.sol/MockYieldSource.json",
+    members: ["balance"],
+  },
+  {
+    name: "CHAINLINK_ORACLE_ABI",
+    artifact: "ChainlinkOracle.sol/ChainlinkOracle.json",
+    members: ["isStale", "getRawPrice", "getPrice"],
+  },
+  {
+    name: "AGGREGATOR_V3_ABI",
+    artifact: "ChainlinkOracle.sol/AggregatorV3Interface.json",
+    members: ["decimals", "latestRoundData"],
+  },
+];
+
+const OUT_DIR = join(import.meta.dir, "../../../out");
+const TARGET = join(import.meta.dir, "contracts.ts");
+
+const HEADER = `/**
+ * Contract Bindings
+ *
+ * GENERATED by bindings/generate.ts from the Forge artifacts in out/ — do
+ * not edit. Run \`forge build\` and then the generator after changing any
+ * contract below.
+ */
+`;
+
+async function render(): Promise<string> {
+  const sections: string[] = [HEADER];
+  for (const binding of BINDINGS) {
+    const path = join(OUT_DIR, binding.artifact);
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+      throw new Error(
+        `${binding.name}: no artifact at ${path}; run forge build`
+      );
+    }
+    const { abi } = (await file.json()) as { abi: { name?: string }[] };
+    const members = binding.members.map((member) => {
+      const matches = abi.filter((item) => item.name === member);
+      if (matches.length !== 1) {
+        throw new Error(
+          `${binding.name}: ${binding.artifact} has ${matches.length} members named ${member}, expected 1`
+        );
+      }
+      return matches[0];
+    });
+    sections.push(
+      `// ${binding.artifact}\nexport const ${binding.name} = ${JSON.stringify(members, null, 2)} as const;\n`
+    );
+  }
+  return sections.join("\n");
+}
+
+async function main() {
+  const generated = await render();
+  if (process.argv.includes("--check")) {
+    const current = await Bun.file(TARGET).text();
+    if (current !== generated) {
+      console.error(
+        "bindings/contracts.ts is out of date with out/; run bindings/generate.ts"
+      );
+      process.exit(1);
+    }
+    console.log("bindings/contracts.ts matches out/");
+    return;
+  }
+  await Bun.write(TARGET, generated);
+  console.log(`Wrote ${BINDINGS.length} bindings → ${TARGET}`);
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,276 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  applyConfigOverrides,
+  parseConfig,
+  validateConfig,
+} from "./config";
+import { DEFAULT_RISK_POLICY } from "./risk-policy";
+
+const readJson = (name: string) => Bun.file(join(import.meta.dir, name)).json();
+
+const invalid = async (patch: Record<string, unknown>) => {
+  const base = await readJson("config.json");
+  return () => validateConfig({ ...base, ...patch });
+};
+
+// Patches the first entry of targets
+const invalidTarget = async (patch: Record<string, unknown>) => {
+  const base = await readJson("config.json");
+  return () =>
+    validateConfig({
+      ...base,
+      targets: [{ ...base.targets[0], ...patch }, ...base.targets.slice(1)],
+    });
+};
+
+describe("validateConfig", () => {
+  test("every target in workflow.yaml has a valid config", async () => {
+    const yaml = await Bun.file(join(import.meta.dir, "workflow.yaml")).text();
+    const paths = [...yaml.matchAll(/config-path:\s*"([^"]+)"/g)].map(
+      (m) => m[1]
+    );
+
+    expect(paths).toEqual([
+      "./config.json",
+      "./config.staging.json",
+      "./config.json",
+    ]);
+    for (const path of paths) {
+      const bytes = await Bun.file(join(import.meta.dir, path)).bytes();
+      expect(() => parseConfig(bytes)).not.toThrow();
+    }
+  });
+
+  test("staging overrides only its gas limit", async () => {
+    const base = validateConfig(await readJson("config.json"));
+    const staging = parseConfig(
+      await Bun.file(join(import.meta.dir, "config.staging.json")).bytes()
+    );
+
+    expect(staging).toEqual({
+      ...base,
+      targets: [{ ...base.targets[0], gasLimit: "1000000" }],
+    });
+  });
+
+  test("merges override objects key by key and replaces arrays whole", async () => {
+    const base = await readJson("config.json");
+    const merged = applyConfigOverrides(base, {
+      riskPolicy: { oracleRiskPerBps: 30 },
+      stressScenarios: [{ name: "bank-run 50%", outflowRateBps: 5000 }],
+      eventTrigger: null,
+    }) as Record<string, unknown>;
+
+    expect(merged.riskPolicy).toEqual({
+      ...base.riskPolicy,
+      oracleRiskPerBps: 30,
+    });
+    expect(merged.stressScenarios).toEqual([
+      { name: "bank-run 50%", outflowRateBps: 5000 },
+    ]);
+    expect("eventTrigger" in merged).toBe(false);
+    expect(merged.targets).toEqual(base.targets);
+  });
+
+  test("rejects a vault left at the zero address", async () => {
+    expect(
+      await invalidTarget({
+        vaultAddress: "0x0000000000000000000000000000000000000000",
+      })
+    ).toThrow(
+      "targets[0].vaultAddress: the zero address; set the deployed contract"
+    );
+  });
+
+  test("rejects a bad address checksum and names the fix", async () => {
+    expect(
+      await invalidTarget({
+        vaultAddress: "0xfe5fe166E70a2772B6d6cA98A9432925088620A5",
+      })
+    ).toThrow(
+      "targets[0].vaultAddress: 0xfe5fe166E70a2772B6d6cA98A9432925088620A5 fails the EIP-55 checksum, expected 0xfe5FE166E70a2772B6d6cA98A9432925088620A5"
+    );
+  });
+
+  test("rejects a cron field out of range", async () => {
+    expect(await invalid({ schedule: "0 */5 25 * * *" })).toThrow(
+      'schedule: hour field "25" is outside [0, 23]'
+    );
+  });
+
+  test("rejects a chain name unknown for the network type", async () => {
+    expect(await invalidTarget({ isTestnet: false })).toThrow(
+      'targets[0].chainSelectorName: "ethereum-testnet-sepolia-base-1" is not a known EVM mainnet'
+    );
+  });
+
+  test("rejects a non-numeric gas limit", async () => {
+    expect(await invalidTarget({ gasLimit: "500k" })).toThrow(
+      'targets[0].gasLimit: "500k" must be a decimal integer string'
+    );
+  });
+
+  test("rejects the same vault listed twice on one chain", async () => {
+    const base = await readJson("config.json");
+    const check = await invalid({
+      targets: [base.targets[0], { ...base.targets[0], gasLimit: "800000" }],
+    });
+
+    expect(check).toThrow(
+      "targets[1]: 0xfe5FE166E70a2772B6d6cA98A9432925088620A5 on ethereum-testnet-sepolia-base-1 is listed twice"
+    );
+  });
+
+  test("points single-vault keys at targets", async () => {
+    expect(
+      await invalid({
+        vaultAddress: "0xfe5FE166E70a2772B6d6cA98A9432925088620A5",
+      })
+    ).toThrow("vaultAddress: belongs in each entry of targets");
+  });
+
+  test("rejects out-of-range scenario bps and unknown keys", async () => {
+    const check = await invalid({
+      stressScenarios: [
+        {
+          name: "bank-run",
+          outflowRateBps: 12000,
+          liquidityShocks: { aave: 10000 },
+        },
+      ],
+      gaslimit: "500000",
+    });
+
+    expect(check).toThrow(
+      "stressScenarios[0].outflowRateBps: 12000 must be an integer"
+    );
+    expect(check).toThrow(
+      'stressScenarios[0].liquidityShocks["aave"]: "aave" is not'
+    );
+    expect(check).toThrow("gaslimit: unknown config key");
+  });
+
+  test("rejects a risk policy whose weights do not sum to 100%", async () => {
+    const base = await readJson("config.json");
+    const check = await invalid({
+      riskPolicy: {
+        ...base.riskPolicy,
+        weights: { ...base.riskPolicy.weights, oracle: 1900 },
+      },
+    });
+
+    expect(check).toThrow("riskPolicy.weights: sum to 10500, expected 10000");
+  });
+
+  test("rejects an exposure cap ceiling below its floor", async () => {
+    const base = await readJson("config.json");
+    const check = await invalid({
+      riskPolicy: {
+        ...base.riskPolicy,
+        exposure: {
+          ...base.riskPolicy.exposure,
+          minCapBps: 5000,
+          maxCapBps: 4000,
+        },
+      },
+    });
+
+    expect(check).toThrow(
+      "riskPolicy.exposure.maxCapBps: 4000 must be an integer in [5000, 10000]"
+    );
+  });
+
+  test("rejects a credit lookback of zero blocks", async () => {
+    const base = await readJson("config.json");
+    const check = await invalid({
+      riskPolicy: {
+        ...base.riskPolicy,
+        credit: { ...base.riskPolicy.credit, lookbackBlocks: 0 },
+      },
+    });
+
+    expect(check).toThrow(
+      "riskPolicy.credit.lookbackBlocks: 0 must be an integer in [1, 4294967295]"
+    );
+  });
+
+  test("fills sections an older policy predates from the defaults", async () => {
+    const base = await readJson("config.json");
+    const { emergencyLadder, trend, exposure, credit, reserve, ...older } =
+      base.riskPolicy;
+    const config = validateConfig({
+      ...base,
+      riskPolicy: { ...older, version: "v1-baseline" },
+    });
+
+    expect(config.riskPolicy).toEqual({
+      ...DEFAULT_RISK_POLICY,
+      version: "v1-baseline",
+    });
+    expect(config.riskPolicy?.reserve).toEqual(reserve);
+    expect(config.riskPolicy?.credit).toEqual(credit);
+    expect(config.riskPolicy?.trend).toEqual(trend);
+    expect(config.riskPolicy?.exposure).toEqual(exposure);
+    expect(config.riskPolicy?.emergencyLadder).toEqual(emergencyLadder);
+  });
+
+  test("rejects weights from before credit was weighted", async () => {
+    const base = await readJson("config.json");
+    const { credit, ...weights } = base.riskPolicy.weights;
+    const check = await invalid({
+      riskPolicy: { ...base.riskPolicy, weights },
+    });
+
+    expect(check).toThrow(
+      "riskPolicy.weights: expected utilization, liquidity, oracle, concentration, credit as integers in [0, 10000]"
+    );
+  });
+
+  test("rejects a credit weight that leaves other sources none", async () => {
+    const base = await readJson("config.json");
+    const check = await invalid({
+      riskPolicy: {
+        ...base.riskPolicy,
+        weights: {
+          utilization: 0,
+          liquidity: 0,
+          oracle: 0,
+          concentration: 0,
+          credit: 10000,
+        },
+      },
+    });
+
+    expect(check).toThrow(
+      "riskPolicy.weights.credit: 10000 leaves no weight for sources without market state"
+    );
+  });
+
+  test("rejects a reserve policy present but incomplete", async () => {
+    const base = await readJson("config.json");
+    const check = await invalid({
+      riskPolicy: { ...base.riskPolicy, reserve: {} },
+    });
+
+    expect(check).toThrow(
+      "riskPolicy.reserve.minSupplyCapHeadroomBps: undefined must be an integer in [0, 10000]"
+    );
+  });
+
+  test("rejects an alert endpoint that is not an http(s) URL", async () => {
+    const check = await invalid({
+      alerts: {
+        endpoints: [{ url: "ftp://alerts.example.com", minSeverity: "warn" }],
+        dedupe: "status-change",
+      },
+    });
+
+    expect(check).toThrow(
+      'alerts.endpoints[0].url: "ftp://alerts.example.com" is not an http(s) URL'
+    );
+    expect(check).toThrow(
+      'alerts.endpoints[0].minSeverity: "warn" must be one of info, warning, critical'
+    );
+  });
+});
@@ -0,0 +1,577 @@
+/**
+ * Workflow Config
+ *
+ * Typed shape of config.json and the loader the Runner parses it with.
+ * config.json is the shared base and is compiled into the workflow; each
+ * workflow.yaml target's config file overrides only the fields that differ.
+ * Every problem is collected and reported at once, naming the offending
+ * field, so a bad deployment config fails when the workflow starts rather
+ * than as a failed RPC call or transaction on the first tick.
+ */
+
+import { getNetwork } from "@chainlink/cre-sdk";
+import { getAddress, isAddress } from "viem";
+import type { SourceKind, StressScenario } from "./risk-model";
+import {
+  checkRiskPolicy,
+  withPolicyDefaults,
+  type RiskPolicy,
+} from "./risk-policy";
+import baseConfig from "./config.json";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Config Type
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type Config = {
+  /** Cron expression: "0 *\/5 * * * *" (every 5 min) */
+  schedule: string;
+  /**
+   * Vaults to monitor. Each gets its own EVMClient, risk evaluation and
+   * report; one failing target does not stop the others.
+   */
+  targets: VaultTarget[];
+  /**
+   * Named stress scenarios the model evaluates; the worst one decides the
+   * action. Defaults to a single 30% redemption run when omitted.
+   */
+  stressScenarios?: StressScenario[];
+  /**
+   * Weights and thresholds the risk model applies. Defaults to
+   * DEFAULT_RISK_POLICY when omitted.
+   */
+  riskPolicy?: RiskPolicy;
+  /**
+   * Runs the pipeline on vault events as well as on the cron schedule.
+   * Defaults to DEFAULT_EVENT_TRIGGER when omitted.
+   */
+  eventTrigger?: EventTriggerConfig;
+  /**
+   * Webhooks told when a vault enters or leaves ORANGE or RED, or its report
+   * fails to land. No alerts are sent when omitted.
+   */
+  alerts?: AlertConfig;
+};
+
+export type VaultTarget = {
+  /** Chain selector name e.g. "ethereum-testnet-sepolia-base-1" */
+  chainSelectorName: string;
+  /** Whether the target chain is a testnet */
+  isTestnet: boolean;
+  /** StreamVault contract address */
+  vaultAddress: string;
+  /**
+   * Adapter type for each yield source address. Sources are discovered
+   * on-chain via getYieldSources(); this list tells the workflow how to read them.
+   */
+  sources: SourceConfig[];
+  /** ChainlinkOracle adapter for the vault asset (optional) */
+  priceOracleAddress?: string;
+  /** Independent Chainlink AggregatorV3 feed the oracle price is compared against (optional) */
+  referenceFeedAddress?: string;
+  /** Gas limit for onReport() transaction */
+  gasLimit: string;
+};
+
+export type SourceConfig = {
+  /** Adapter type: "aave-v3", "morpho-blue" or "mock" */
+  kind: Exclude<SourceKind, "unknown">;
+  /** Yield source adapter address */
+  address: string;
+};
+
+export type EventTriggerConfig = {
+  /**
+   * Blocks per debounce window: the first matching vault event in each
+   * window runs the pipeline, and a later withdrawal request only runs it
+   * again once the shares requested since the last run exceed those it saw
+   */
+  debounceBlocks: number;
+  /** Finality a log needs before it fires the trigger */
+  confidence: "SAFE" | "LATEST" | "FINALIZED";
+};
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export type AlertConfig = {
+  /** Each endpoint gets the alerts at or above its minSeverity */
+  endpoints: { url: string; minSeverity: AlertSeverity }[];
+  /**
+   * "status-change" alerts only when the status differs from the vault's
+   * last snapshot; "every-run" repeats the alert on every run spent in
+   * ORANGE or RED. A failed write alerts either way.
+   */
+  dedupe: "status-change" | "every-run";
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Bounds
+// ═══════════════════════════════════════════════════════════════════════════
+
+const CONFIG_KEYS: (keyof Config)[] = [
+  "schedule",
+  "targets",
+  "stressScenarios",
+  "riskPolicy",
+  "eventTrigger",
+  "alerts",
+];
+
+const TARGET_KEYS: (keyof VaultTarget)[] = [
+  "chainSelectorName",
+  "isTestnet",
+  "vaultAddress",
+  "sources",
+  "priceOracleAddress",
+  "referenceFeedAddress",
+  "gasLimit",
+];
+
+const CONFIGURABLE_KINDS: SourceConfig["kind"][] = [
+  "aave-v3",
+  "morpho-blue",
+  "mock",
+];
+const SCENARIO_KEY_KINDS: SourceKind[] = [...CONFIGURABLE_KINDS, "unknown"];
+
+const BPS = 10000;
+const MIN_GAS_LIMIT = 21_000n; // intrinsic cost of any transaction
+const MAX_GAS_LIMIT = 30_000_000n;
+const MAX_DEBOUNCE_BLOCKS = 10_000;
+const CONFIDENCE_LEVELS = ["SAFE", "LATEST", "FINALIZED"];
+const ALERT_SEVERITIES: AlertSeverity[] = ["info", "warning", "critical"];
+const DEDUPE_MODES: AlertConfig["dedupe"][] = ["status-change", "every-run"];
+
+// [min, max] for each cron field, with and without the leading seconds field
+const CRON_FIELDS_6: [string, number, number][] = [
+  ["second", 0, 59],
+  ["minute", 0, 59],
+  ["hour", 0, 23],
+  ["day-of-month", 1, 31],
+  ["month", 1, 12],
+  ["day-of-week", 0, 6],
+];
+const CRON_FIELDS_5 = CRON_FIELDS_6.slice(1);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Field Checks — each pushes a "<path>: <problem>" line per violation
+// ═══════════════════════════════════════════════════════════════════════════
+
+function checkAddress(issues: string[], path: string, value: unknown): void {
+  if (typeof value !== "string" || !isAddress(value, { strict: false })) {
+    issues.push(
+      `${path}: ${JSON.stringify(value)} is not a 20-byte hex address`
+    );
+    return;
+  }
+  // Unconfigured deployments carry the zero address as a placeholder
+  if (BigInt(value) === 0n) {
+    issues.push(`${path}: the zero address; set the deployed contract`);
+    return;
+  }
+  const checksummed = getAddress(value);
+  if (value !== checksummed) {
+    issues.push(
+      `${path}: ${value} fails the EIP-55 checksum, expected ${checksummed}`
+    );
+  }
+}
+
+function checkBps(issues: string[], path: string, value: unknown): void {
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < 0 ||
+    value > BPS
+  ) {
+    issues.push(
+      `${path}: ${JSON.stringify(value)} must be an integer in [0, ${BPS}] bps`
+    );
+  }
+}
+
+/** Validates one cron field ("*", "5", "1-5", "*\/10", "0,30", "10-40/5") */
+function cronFieldError(
+  field: string,
+  min: number,
+  max: number
+): string | undefined {
+  if (field === "*" || field === "?") return undefined;
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return `"${part}" is not a number, range, list or step`;
+
+    const [, , start, end, step] = match;
+    if (start !== undefined) {
+      const from = Number(start);
+      const to = end !== undefined ? Number(end) : from;
+      if (from < min || to > max) {
+        return `"${part}" is outside [${min}, ${max}]`;
+      }
+      if (from > to) return `"${part}" is a descending range`;
+    }
+    if (step !== undefined && (Number(step) === 0 || Number(step) > max)) {
+      return `step in "${part}" must be in [1, ${max}]`;
+    }
+  }
+  return undefined;
+}
+
+function checkSchedule(issues: string[], value: unknown): void {
+  if (typeof value !== "string") {
+    issues.push(`schedule: expected a cron expression string`);
+    return;
+  }
+  const fields = value.trim().split(/\s+/);
+  const layout =
+    fields.length === 6
+      ? CRON_FIELDS_6
+      : fields.length === 5
+        ? CRON_FIELDS_5
+        : undefined;
+  if (!layout) {
+    issues.push(
+      `schedule: "${value}" has ${fields.length} fields, expected 5 or 6`
+    );
+    return;
+  }
+  fields.forEach((field, i) => {
+    const [name, min, max] = layout[i];
+    const error = cronFieldError(field, min, max);
+    if (error) issues.push(`schedule: ${name} field ${error}`);
+  });
+}
+
+function checkNetwork(
+  issues: string[],
+  path: string,
+  raw: Record<string, unknown>
+): void {
+  if (typeof raw.isTestnet !== "boolean") {
+    issues.push(`${path}.isTestnet: expected true or false`);
+  }
+  if (typeof raw.chainSelectorName !== "string") {
+    issues.push(
+      `${path}.chainSelectorName: expected a chain selector name string`
+    );
+    return;
+  }
+  if (typeof raw.isTestnet !== "boolean") return;
+
+  const network = getNetwork({
+    chainFamily: "evm",
+    chainSelectorName: raw.chainSelectorName,
+    isTestnet: raw.isTestnet,
+  });
+  if (!network) {
+    issues.push(
+      `${path}.chainSelectorName: "${raw.chainSelectorName}" is not a known EVM ${raw.isTestnet ? "testnet" : "mainnet"}`
+    );
+  }
+}
+
+function checkSources(issues: string[], prefix: string, value: unknown): void {
+  if (!Array.isArray(value)) {
+    issues.push(`${prefix}.sources: expected an array of { kind, address }`);
+    return;
+  }
+  const seen = new Set<string>();
+  value.forEach((source, i) => {
+    const path = `${prefix}.sources[${i}]`;
+    if (!CONFIGURABLE_KINDS.includes(source?.kind)) {
+      issues.push(
+        `${path}.kind: ${JSON.stringify(source?.kind)} must be one of ${CONFIGURABLE_KINDS.join(", ")}`
+      );
+    }
+    checkAddress(issues, `${path}.address`, source?.address);
+    if (typeof source?.address === "string") {
+      const key = source.address.toLowerCase();
+      if (seen.has(key)) {
+        issues.push(`${path}.address: ${source.address} is listed twice`);
+      }
+      seen.add(key);
+    }
+  });
+}
+
+/** Override / shock keys are a source address or a source kind */
+function checkScenarioMap(
+  issues: string[],
+  path: string,
+  value: unknown
+): void {
+  if (value === undefined) return;
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    issues.push(`${path}: expected an object keyed by source address or kind`);
+    return;
+  }
+  for (const [key, bps] of Object.entries(value)) {
+    if (!SCENARIO_KEY_KINDS.includes(key as SourceKind)) {
+      checkAddress(issues, `${path}["${key}"]`, key);
+    }
+    checkBps(issues, `${path}["${key}"]`, bps);
+  }
+}
+
+function checkStressScenarios(issues: string[], value: unknown): void {
+  if (value === undefined) return;
+  if (!Array.isArray(value) || value.length === 0) {
+    issues.push(
+      `stressScenarios: expected a non-empty array (omit it for the default)`
+    );
+    return;
+  }
+  const names = new Set<string>();
+  value.forEach((scenario, i) => {
+    const path = `stressScenarios[${i}]`;
+    if (typeof scenario?.name !== "string" || scenario.name.trim() === "") {
+      issues.push(`${path}.name: expected a non-empty string`);
+    } else if (names.has(scenario.name)) {
+      issues.push(`${path}.name: "${scenario.name}" is used twice`);
+    } else {
+      names.add(scenario.name);
+    }
+    checkBps(issues, `${path}.outflowRateBps`, scenario?.outflowRateBps);
+    checkScenarioMap(
+      issues,
+      `${path}.haircutOverrides`,
+      scenario?.haircutOverrides
+    );
+    checkScenarioMap(
+      issues,
+      `${path}.liquidityShocks`,
+      scenario?.liquidityShocks
+    );
+  });
+}
+
+function checkEventTrigger(issues: string[], value: unknown): void {
+  if (value === undefined) return;
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    issues.push(
+      "eventTrigger: expected { debounceBlocks, confidence } (omit it for the default)"
+    );
+    return;
+  }
+  const trigger = value as Partial<EventTriggerConfig>;
+  const { debounceBlocks, confidence } = trigger;
+  if (
+    typeof debounceBlocks !== "number" ||
+    !Number.isInteger(debounceBlocks) ||
+    debounceBlocks < 1 ||
+    debounceBlocks > MAX_DEBOUNCE_BLOCKS
+  ) {
+    issues.push(
+      `eventTrigger.debounceBlocks: ${JSON.stringify(debounceBlocks)} must be an integer in [1, ${MAX_DEBOUNCE_BLOCKS}]`
+    );
+  }
+  if (!CONFIDENCE_LEVELS.includes(confidence as string)) {
+    issues.push(
+      `eventTrigger.confidence: ${JSON.stringify(confidence)} must be one of ${CONFIDENCE_LEVELS.join(", ")}`
+    );
+  }
+}
+
+function checkAlerts(issues: string[], value: unknown): void {
+  if (value === undefined) return;
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    issues.push(
+      "alerts: expected { endpoints, dedupe } (omit it to send no alerts)"
+    );
+    return;
+  }
+  const { endpoints, dedupe } = value as Partial<AlertConfig>;
+  if (!Array.isArray(endpoints) || endpoints.length === 0) {
+    issues.push("alerts.endpoints: expected a non-empty array");
+  } else {
+    endpoints.forEach((endpoint, i) => {
+      const path = `alerts.endpoints[${i}]`;
+      if (typeof endpoint !== "object" || endpoint === null) {
+        issues.push(`${path}: expected { url, minSeverity }`);
+        return;
+      }
+      if (
+        typeof endpoint.url !== "string" ||
+        !/^https?:\/\/[^\s/]+/.test(endpoint.url)
+      ) {
+        issues.push(
+          `${path}.url: ${JSON.stringify(endpoint.url)} is not an http(s) URL`
+        );
+      }
+      if (!ALERT_SEVERITIES.includes(endpoint.minSeverity)) {
+        issues.push(
+          `${path}.minSeverity: ${JSON.stringify(endpoint.minSeverity)} must be one of ${ALERT_SEVERITIES.join(", ")}`
+        );
+      }
+    });
+  }
+  if (!DEDUPE_MODES.includes(dedupe as AlertConfig["dedupe"])) {
+    issues.push(
+      `alerts.dedupe: ${JSON.stringify(dedupe)} must be one of ${DEDUPE_MODES.join(", ")}`
+    );
+  }
+}
+
+function checkGasLimit(issues: string[], path: string, value: unknown): void {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    issues.push(
+      `${path}: ${JSON.stringify(value)} must be a decimal integer string`
+    );
+    return;
+  }
+  const gasLimit = BigInt(value);
+  if (gasLimit < MIN_GAS_LIMIT || gasLimit > MAX_GAS_LIMIT) {
+    issues.push(
+      `${path}: ${value} is outside [${MIN_GAS_LIMIT}, ${MAX_GAS_LIMIT}]`
+    );
+  }
+}
+
+function checkTarget(
+  issues: string[],
+  path: string,
+  raw: Record<string, unknown>
+): void {
+  for (const key of Object.keys(raw)) {
+    if (!TARGET_KEYS.includes(key as keyof VaultTarget)) {
+      issues.push(`${path}.${key}: unknown target key`);
+    }
+  }
+
+  checkNetwork(issues, path, raw);
+  checkAddress(issues, `${path}.vaultAddress`, raw.vaultAddress);
+  checkSources(issues, path, raw.sources);
+
+  if (
+    (raw.priceOracleAddress === undefined) !==
+    (raw.referenceFeedAddress === undefined)
+  ) {
+    issues.push(
+      `${path}.priceOracleAddress / referenceFeedAddress: set both to measure oracle deviation, or neither`
+    );
+  }
+  if (raw.priceOracleAddress !== undefined) {
+    checkAddress(issues, `${path}.priceOracleAddress`, raw.priceOracleAddress);
+  }
+  if (raw.referenceFeedAddress !== undefined) {
+    checkAddress(
+      issues,
+      `${path}.referenceFeedAddress`,
+      raw.referenceFeedAddress
+    );
+  }
+
+  checkGasLimit(issues, `${path}.gasLimit`, raw.gasLimit);
+}
+
+function checkTargets(issues: string[], value: unknown): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    issues.push(
+      "targets: expected a non-empty array of { chainSelectorName, vaultAddress, sources, ... }"
+    );
+    return;
+  }
+  const seen = new Set<string>();
+  value.forEach((target, i) => {
+    const path = `targets[${i}]`;
+    if (
+      typeof target !== "object" ||
+      target === null ||
+      Array.isArray(target)
+    ) {
+      issues.push(`${path}: expected an object`);
+      return;
+    }
+    checkTarget(issues, path, target);
+    if (typeof target.vaultAddress === "string") {
+      const key = `${target.chainSelectorName}:${target.vaultAddress.toLowerCase()}`;
+      if (seen.has(key)) {
+        issues.push(
+          `${path}: ${target.vaultAddress} on ${target.chainSelectorName} is listed twice`
+        );
+      }
+      seen.add(key);
+    }
+  });
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Loader
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Checks a parsed config object and returns it typed.
+ * Throws listing every problem found, one per line.
+ */
+export function validateConfig(raw: unknown): Config {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("Invalid workflow config: expected a JSON object");
+  }
+  const config = raw as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const key of Object.keys(config)) {
+    if (TARGET_KEYS.includes(key as keyof VaultTarget)) {
+      issues.push(`${key}: belongs in each entry of targets`);
+    } else if (!CONFIG_KEYS.includes(key as keyof Config)) {
+      issues.push(`${key}: unknown config key`);
+    }
+  }
+
+  checkSchedule(issues, config.schedule);
+  checkTargets(issues, config.targets);
+  checkStressScenarios(issues, config.stressScenarios);
+  if (config.riskPolicy !== undefined) {
+    issues.push(...checkRiskPolicy(config.riskPolicy, "riskPolicy"));
+  }
+  checkEventTrigger(issues, config.eventTrigger);
+  checkAlerts(issues, config.alerts);
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid workflow config:\n  - ${issues.join("\n  - ")}`);
+  }
+
+  if (config.riskPolicy !== undefined) {
+    return {
+      ...config,
+      riskPolicy: withPolicyDefaults(config.riskPolicy as Partial<RiskPolicy>),
+    } as Config;
+  }
+  return config as Config;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Applies a target's config file to the base as a JSON merge patch
+ * (RFC 7396): objects merge key by key, null removes a key, and any other
+ * value, arrays included, replaces the base value whole.
+ */
+export function applyConfigOverrides(
+  base: unknown,
+  overrides: unknown
+): unknown {
+  if (!isPlainObject(overrides)) return overrides;
+  const merged = isPlainObject(base) ? { ...base } : {};
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = applyConfigOverrides(merged[key], value);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Runner configParser: a target's config file bytes → validated Config.
+ * The file overrides the shared config.json; config.json itself resolves to
+ * the base unchanged.
+ */
+export function parseConfig(bytes: Uint8Array): Config {
+  return validateConfig(
+    applyConfigOverrides(baseConfig, JSON.parse(Buffer.from(bytes).toString()))
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * Multicall3 Batch Reader
+ *
+ * Packs many view calls into one Multicall3.aggregate3() call so they cost a
+ * single EVMClient round trip (and a single pass through DON consensus), and
+ * all see the same block. Each sub-call may fail on its own; callers decide
+ * per field what a failure means.
+ */
+
+import {
+  blockNumber,
+  bytesToHex,
+  encodeCallMsg,
+  LAST_FINALIZED_BLOCK_NUMBER,
+  type Runtime,
+} from "@chainlink/cre-sdk";
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  type Abi,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type Hex,
+} from "viem";
+import type { Config } from "./config";
+import type { EVMClient } from "./protocol-readers";
+
+// Multicall3 is deployed at the same address on every supported chain
+export const MULTICALL3_ADDRESS =
+  "0xcA11bde05977b3631167028862bE2a173976CA11" as const;
+
+// Zero address used as `from` for read-only calls
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as const;
+
+export const MULTICALL3_ABI = [
+  {
+    name: "aggregate3",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "calls",
+        type: "tuple[]",
+        components: [
+          { name: "target", type: "address" },
+          { name: "allowFailure", type: "bool" },
+          { name: "callData", type: "bytes" },
+        ],
+      },
+    ],
+    outputs: [
+      {
+        name: "returnData",
+        type: "tuple[]",
+        components: [
+          { name: "success", type: "bool" },
+          { name: "returnData", type: "bytes" },
+        ],
+      },
+    ],
+  },
+  {
+    name: "getBlockNumber",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "blockNumber", type: "uint256" }],
+  },
+] as const;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Type Definitions
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** One view call in a batch */
+export interface ContractRead {
+  target: string;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+/**
+ * Builds a ContractRead whose function name and arguments are checked against
+ * `abi` at compile time — pass a generated binding (bindings/contracts.ts)
+ */
+export function contractRead<
+  const abi extends Abi,
+  functionName extends ContractFunctionName<abi, "view" | "pure">,
+>(
+  target: string,
+  abi: abi,
+  functionName: functionName,
+  args?: ContractFunctionArgs<abi, "view" | "pure", functionName>
+): ContractRead {
+  return { target, abi, functionName, args: args as readonly unknown[] };
+}
+
+/** Outcome of one sub-call: the decoded return value, or why it failed */
+export type ReadResult =
+  | { ok: true; value: unknown }
+  | { ok: false; error: string };
+
+/** Block a batch reads at — the first batch of a tick pins the rest */
+export type ReadBlock = "finalized" | bigint;
+
+export interface BatchResult {
+  /** Block every sub-call was answered at */
+  blockNumber: bigint;
+  /** One entry per read, in order */
+  results: ReadResult[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Batch Reader
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Runs `reads` in one aggregate3() call at `block`. Reading at "finalized"
+ * also fetches the block number so follow-up batches can pin to it.
+ * Throws only if the aggregate3() call itself fails.
+ */
+export function multicallRead(
+  runtime: Runtime<Config>,
+  evmClient: EVMClient,
+  reads: ContractRead[],
+  block: ReadBlock
+): BatchResult {
+  const pinned = block !== "finalized";
+  const calls = reads.map((read) => ({
+    target: read.target as Hex,
+    allowFailure: true,
+    callData: encodeFunctionData({
+      abi: read.abi,
+      functionName: read.functionName,
+      args: read.args,
+    } as Parameters<typeof encodeFunctionData>[0]),
+  }));
+  if (!pinned) {
+    calls.unshift({
+      target: MULTICALL3_ADDRESS,
+      allowFailure: false,
+      callData: encodeFunctionData({
+        abi: MULTICALL3_ABI,
+        functionName: "getBlockNumber",
+      }),
+    });
+  }
+
+  const response = evmClient
+    .callContract(runtime, {
+      call: encodeCallMsg({
+        from: ZERO_ADDRESS,
+        to: MULTICALL3_ADDRESS,
+        data: encodeFunctionData({
+          abi: MULTICALL3_ABI,
+          functionName: "aggregate3",
+          args: [calls],
+        }),
+      }),
+      blockNumber: pinned ? blockNumber(block) : LAST_FINALIZED_BLOCK_NUMBER,
+    })
+    .result();
+
+  const returned = decodeFunctionResult({
+    abi: MULTICALL3_ABI,
+    functionName: "aggregate3",
+    data: bytesToHex(response.data) as Hex,
+  });
+
+  const subResults = pinned ? returned : returned.slice(1);
+  const readAt = pinned
+    ? block
+    : decodeFunctionResult({
+        abi: MULTICALL3_ABI,
+        functionName: "getBlockNumber",
+        data: returned[0].returnData,
+      });
+
+  return {
+    blockNumber: readAt,
+    results: reads.map((read, i) => {
+      const sub = subResults[i];
+      if (!sub?.success) {
+        return { ok: false, error: `${read.functionName}() reverted` };
+      }
+      try {
+        return {
+          ok: true,
+          value: decodeFunctionResult({
+            abi: read.abi,
+            functionName: read.functionName,
+            data: sub.returnData,
+          } as Parameters<typeof decodeFunctionResult>[0]),
+        };
+      } catch {
+        return {
+          ok: false,
+          error: `${read.functionName}() returned undecodable data`,
+        };
+      }
+    }),
+  };
+}
@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import { toFunctionSelector, type Hex } from "viem";
+import { validateConfig } from "./config";
+import { checkTarget, type PreflightClient } from "./preflight";
+
+const ORACLE = "0x1111111111111111111111111111111111111111";
+const FEED = "0x2222222222222222222222222222222222222222";
+
+const loadTarget = async () => {
+  const config = validateConfig(
+    await Bun.file(join(import.meta.dir, "config.json")).json()
+  );
+  return {
+    ...config.targets[0],
+    priceOracleAddress: ORACLE,
+    referenceFeedAddress: FEED,
+  };
+};
+
+const CODE = "0x6080604052" as Hex;
+
+const SUPPORTS_INTERFACE = toFunctionSelector("supportsInterface(bytes4)");
+
+// type(IReceiver).interfaceId
+const ON_REPORT = toFunctionSelector("onReport(bytes,bytes)");
+
+// supportsInterface() answering true
+const TRUE_RETURN = `0x${"00".repeat(31)}01` as Hex;
+
+// Sixteen zero words decode as a zero/empty value for every binding output
+const ZERO_RETURN = `0x${"00".repeat(32 * 16)}` as Hex;
+
+// Shorter than one word, so no binding output decodes from it
+const SHORT_RETURN = "0x1234" as Hex;
+
+/** A chain where every contract has `code` and answers every call */
+const stubClient = ({
+  code = CODE,
+  receiver = true,
+  reverts = [],
+  malformed = [],
+}: {
+  code?: Hex;
+  receiver?: boolean; // supportsInterface() answer
+  reverts?: string[]; // function signatures
+  malformed?: string[]; // function signatures answered with SHORT_RETURN
+} = {}): PreflightClient => ({
+  async call({ data }) {
+    const selector = data.slice(0, 10) as Hex;
+    if (reverts.map(toFunctionSelector).includes(selector)) {
+      throw new Error("execution reverted");
+    }
+    if (malformed.map(toFunctionSelector).includes(selector)) {
+      return { data: SHORT_RETURN };
+    }
+    if (selector === SUPPORTS_INTERFACE && receiver) {
+      return { data: TRUE_RETURN };
+    }
+    return { data: ZERO_RETURN };
+  },
+  async getCode() {
+    return code;
+  },
+});
+
+describe("checkTarget", () => {
+  test("a vault serving every call passes", async () => {
+    expect(await checkTarget(stubClient(), await loadTarget())).toEqual([]);
+  });
+
+  test("a vault that does not report IReceiver fails", async () => {
+    const target = await loadTarget();
+
+    expect(
+      await checkTarget(stubClient({ receiver: false }), target)
+    ).toEqual([
+      `${target.vaultAddress}: supportsInterface(${ON_REPORT}) is false, so the vault does not receive onReport(bytes,bytes)`,
+    ]);
+  });
+
+  test("names a vault whose supportsInterface() reverts", async () => {
+    const target = await loadTarget();
+
+    expect(
+      await checkTarget(
+        stubClient({ reverts: ["supportsInterface(bytes4)"] }),
+        target
+      )
+    ).toEqual([
+      `${target.vaultAddress}: supportsInterface(${ON_REPORT}) failed: execution reverted`,
+    ]);
+  });
+
+  test("names each call that reverts", async () => {
+    const target = await loadTarget();
+    const issues = await checkTarget(
+      stubClient({
+        reverts: ["getSourceRiskParams(address)", "isStale()"],
+      }),
+      target
+    );
+
+    expect(issues).toEqual([
+      `${ORACLE}: isStale() failed: execution reverted`,
+      ...target.sources.map(
+        (s) =>
+          `${target.vaultAddress}: getSourceRiskParams(${s.address}) failed: execution reverted`
+      ),
+    ]);
+  });
+
+  test("names each call whose return data does not decode", async () => {
+    const target = await loadTarget();
+    const issues = await checkTarget(
+      stubClient({ malformed: ["getRiskSnapshot()"] }),
+      target
+    );
+
+    expect(issues).toEqual([
+      `${target.vaultAddress}: getRiskSnapshot() returned data that does not decode against the binding`,
+    ]);
+  });
+
+  test("an address without code fails fast", async () => {
+    const target = await loadTarget();
+
+    expect(await checkTarget(stubClient({ code: "0x" }), target)).toEqual([
+      `${target.vaultAddress}: no contract code`,
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Deploy Preflight
+ *
+ * Checks, against live RPC endpoints, that every configured vault can serve
+ * the workflow before it is deployed against it:
+ *   - each view call of a tick (tickReads()) answers with data that decodes
+ *     against the generated bindings — the vault fields, getSourceRiskParams()
+ *     per configured source, each adapter's metrics and the oracle pair
+ *   - the vault reports IReceiver through ERC-165 supportsInterface(), so the
+ *     forwarder can deliver reports to its onReport(bytes,bytes)
+ *
+ * Usage:
+ *   bun preflight.ts --config config.staging.json \
+ *     --rpc ethereum-testnet-sepolia-base-1=https://sepolia.base.org
+ *
+ * --rpc takes comma-separated chainSelectorName=url pairs, one per chain the
+ * config targets. Exits non-zero when any check fails.
+ */
+
+import {
+  BaseError,
+  createPublicClient,
+  decodeFunctionResult,
+  encodeFunctionData,
+  http,
+  toFunctionSelector,
+  type Hex,
+} from "viem";
+import { RISK_RECEIVER_ABI } from "./bindings/contracts";
+import { parseConfig, type VaultTarget } from "./config";
+import { tickReads } from "./protocol-readers";
+
+// type(IReceiver).interfaceId: the selector of its only function
+const IRECEIVER_INTERFACE_ID = toFunctionSelector("onReport(bytes,bytes)");
+
+/** The RPC calls the preflight makes — satisfied by a viem PublicClient */
+export interface PreflightClient {
+  call(args: { to: Hex; data: Hex }): Promise<{ data?: Hex }>;
+  getCode(args: { address: Hex }): Promise<Hex | undefined>;
+}
+
+const errorMessage = (err: unknown) =>
+  err instanceof BaseError
+    ? err.shortMessage
+    : err instanceof Error
+      ? err.message
+      : String(err);
+
+/** Whether the vault reports IReceiver; a revert or bad answer is a problem */
+async function checkReceiver(
+  client: PreflightClient,
+  vault: Hex
+): Promise<string | undefined> {
+  const call = `supportsInterface(${IRECEIVER_INTERFACE_ID})`;
+  let supported: boolean;
+  try {
+    const { data } = await client.call({
+      to: vault,
+      data: encodeFunctionData({
+        abi: RISK_RECEIVER_ABI,
+        functionName: "supportsInterface",
+        args: [IRECEIVER_INTERFACE_ID],
+      }),
+    });
+    supported = decodeFunctionResult({
+      abi: RISK_RECEIVER_ABI,
+      functionName: "supportsInterface",
+      data: data ?? "0x",
+    });
+  } catch (err) {
+    return `${vault}: ${call} failed: ${errorMessage(err)}`;
+  }
+  if (!supported) {
+    return `${vault}: ${call} is false, so the vault does not receive onReport(bytes,bytes)`;
+  }
+}
+
+/** Runs every check for one target; returns "<address>: <problem>" issues */
+export async function checkTarget(
+  client: PreflightClient,
+  target: VaultTarget
+): Promise<string[]> {
+  const vault = target.vaultAddress as Hex;
+  const code = await client.getCode({ address: vault });
+  if (!code || code === "0x") {
+    return [`${vault}: no contract code`];
+  }
+
+  const issues: string[] = [];
+
+  const receiver = await checkReceiver(client, vault);
+  if (receiver) issues.push(receiver);
+
+  for (const read of tickReads(target)) {
+    const call = `${read.functionName}(${(read.args ?? []).join(", ")})`;
+    const data = encodeFunctionData({
+      abi: read.abi,
+      functionName: read.functionName,
+      args: read.args,
+    });
+    let returnData: Hex;
+    try {
+      returnData =
+        (await client.call({ to: read.target as Hex, data })).data ?? "0x";
+    } catch (err) {
+      issues.push(`${read.target}: ${call} failed: ${errorMessage(err)}`);
+      continue;
+    }
+    try {
+      decodeFunctionResult({
+        abi: read.abi,
+        functionName: read.functionName,
+        data: returnData,
+      });
+    } catch {
+      issues.push(
+        `${read.target}: ${call} returned data that does not decode against the binding`
+      );
+    }
+  }
+
+  return issues;
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const flag = argv[i];
+    if (!flag.startsWith("--") || argv[i + 1] === undefined) {
+      throw new Error(`Expected --flag value pairs, got "${flag}"`);
+    }
+    args[flag.slice(2)] = argv[i + 1];
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  for (const required of ["rpc", "config"]) {
+    if (!args[required]) throw new Error(`Missing --${required}`);
+  }
+
+  const config = parseConfig(await Bun.file(args.config).bytes());
+  const rpcs = new Map(
+    args.rpc.split(",").map((pair) => {
+      const [chain, ...url] = pair.split("=");
+      return [chain, url.join("=")] as const;
+    })
+  );
+
+  let failed = 0;
+  for (const target of config.targets) {
+    const label = `${target.chainSelectorName} ${target.vaultAddress}`;
+    const rpc = rpcs.get(target.chainSelectorName);
+    const issues = rpc
+      ? await checkTarget(createPublicClient({ transport: http(rpc) }), target)
+      : [`${target.chainSelectorName}: no --rpc URL for this chain`];
+
+    if (issues.length === 0) {
+      console.log(`[OK]   ${label}`);
+      continue;
+    }
+    failed++;
+    console.log(`[FAIL] ${label}`);
+    for (const issue of issues) console.log(`  ${issue}`);
+  }
+
+  if (failed > 0) {
+    console.error(`${failed} of ${config.targets.length} target(s) failed`);
+    process.exit(1);
+  }
+}
+
+if (import.meta.main) {
+  main().catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  });
+}
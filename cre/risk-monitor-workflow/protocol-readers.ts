@@ -4,328 +4,659 @@
  * Uses CRE EVMClient for on-chain reads with DON consensus.
  * Each read goes through DON consensus — multiple nodes read independently, results verified.
  *
- * Uses encodeCallMsg() to structure the call and bytesToHex() to decode the Uint8Array result.
+ * Every read of a tick is batched through Multicall3 (multicall.ts): one
+ * aggregate3() call at the last finalized block covers the vault, the oracle
+ * and every configured source. Sources registered on the vault but missing
+ * from config need a second batch, pinned to the first batch's block. An
+ * event run never reads before its event's block.
  */
 
+import type { Runtime, WriteCreReportRequestJson } from "@chainlink/cre-sdk";
+import type { EVM_PB } from "@chainlink/cre-sdk/pb";
+import type { Abi, ContractFunctionName, Hex } from "viem";
+
+import {
+  AAVE_V3_YIELD_SOURCE_ABI,
+  AGGREGATOR_V3_ABI,
+  CHAINLINK_ORACLE_ABI,
+  MOCK_YIELD_SOURCE_ABI,
+  MORPHO_BLUE_YIELD_SOURCE_ABI,
+  RISK_RECEIVER_ABI,
+  STREAM_VAULT_ABI,
+} from "./bindings/contracts";
+import type { Config, VaultTarget } from "./config";
 import {
-  cre,
-  encodeCallMsg,
-  LAST_FINALIZED_BLOCK_NUMBER,
-  bytesToHex,
-  type Runtime,
-} from "@chainlink/cre-sdk";
+  contractRead,
+  multicallRead,
+  type ContractRead,
+  type ReadResult,
+} from "./multicall";
+import type {
+  MarketState,
+  ProtocolHealth,
+  ReserveState,
+  SourceHealth,
+  SourceKind,
+  SourcePosition,
+  VaultState,
+} from "./risk-model";
 
-type EVMClient = InstanceType<typeof cre.capabilities.EVMClient>;
-import { encodeFunctionData, decodeFunctionResult } from "viem";
-import type { ProtocolHealth, VaultState } from "./risk-model";
+/**
+ * The EVMClient calls the workflow makes, in the JSON request shapes it
+ * passes them. cre.capabilities.EVMClient satisfies it, and so does the
+ * simulation harness's fake.
+ */
+export interface EVMClient {
+  callContract(
+    runtime: Runtime<unknown>,
+    input: EVM_PB.CallContractRequestJson
+  ): { result: () => EVM_PB.CallContractReply };
+  filterLogs(
+    runtime: Runtime<unknown>,
+    input: EVM_PB.FilterLogsRequestJson
+  ): { result: () => EVM_PB.FilterLogsReply };
+  writeReport(
+    runtime: Runtime<unknown>,
+    input: WriteCreReportRequestJson
+  ): { result: () => EVM_PB.WriteReportReply };
+}
 
-// Zero address used as `from` for read-only calls
-const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000" as const;
+// Deviation reported when the oracle is stale or returns an unusable price
+const MAX_ORACLE_DEVIATION_BPS = 10000;
 
 // ═══════════════════════════════════════════════════════════════════════════
-// ABI Definitions (minimal for the functions we need)
+// Yield Source Adapters — one per supported source kind
 // ═══════════════════════════════════════════════════════════════════════════
 
-const YIELD_SOURCE_ABI = [
-  {
-    name: "getPoolUtilization",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "utilizationBps", type: "uint256" }],
-  },
-  {
-    name: "getAvailableLiquidity",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "liquidity", type: "uint256" }],
-  },
-  {
-    name: "getMarketUtilization",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "utilizationBps", type: "uint256" }],
-  },
-] as const;
-
-const STREAM_VAULT_ABI = [
-  {
-    name: "totalAssets",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "assets", type: "uint256" }],
-  },
-  {
-    name: "getSourceBalance",
-    type: "function",
-    stateMutability: "view",
-    inputs: [{ name: "source", type: "address" }],
-    outputs: [{ name: "balance", type: "uint256" }],
-  },
-  {
-    name: "idleBalance",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "balance", type: "uint256" }],
-  },
-  {
-    name: "getPendingEpochWithdrawals",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "pending", type: "uint256" }],
-  },
-  {
-    name: "getCurrentEpochInfo",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [
-      { name: "epochId", type: "uint256" },
-      { name: "startTime", type: "uint256" },
-      { name: "minDuration", type: "uint256" },
-    ],
-  },
-] as const;
+/** Per-kind metrics the risk model scores: a call to read, or a fixed value */
+interface SourceAdapter {
+  /** Binding the metric calls go through */
+  abi: Abi;
+  utilization: string | number;
+  liquidity: string | bigint;
+  /** Lending-market state for credit scoring, where the adapter reports it */
+  market?: string;
+  /** Reserve flags, supply cap and liquidity index, where the adapter reports them */
+  reserve?: string;
+}
+
+/** Checks an adapter's metric calls against its binding at compile time */
+const defineAdapter = <const abi extends Abi>(adapter: {
+  abi: abi;
+  utilization: ContractFunctionName<abi, "view"> | number;
+  liquidity: ContractFunctionName<abi, "view"> | bigint;
+  market?: ContractFunctionName<abi, "view">;
+  reserve?: ContractFunctionName<abi, "view">;
+}): SourceAdapter => adapter;
+
+const SOURCE_ADAPTERS: Record<SourceKind, SourceAdapter> = {
+  // AaveV3YieldSource: pool-wide utilization + withdrawable liquidity, and
+  // the reserve flags and index that can force it to RED
+  "aave-v3": defineAdapter({
+    abi: AAVE_V3_YIELD_SOURCE_ABI,
+    utilization: "getPoolUtilization",
+    liquidity: "getAvailableLiquidity",
+    reserve: "getReserveState",
+  }),
+  // MorphoBlueYieldSource: market utilization + withdrawable liquidity, and
+  // the market state behind credit scoring
+  "morpho-blue": defineAdapter({
+    abi: MORPHO_BLUE_YIELD_SOURCE_ABI,
+    utilization: "getMarketUtilization",
+    liquidity: "getAvailableLiquidity",
+    market: "getMarketState",
+  }),
+  // MockYieldSource: no borrowers, the full balance is always withdrawable
+  mock: defineAdapter({
+    abi: MOCK_YIELD_SOURCE_ABI,
+    utilization: 0,
+    liquidity: "balance",
+  }),
+  // Source registered on the vault but not declared in config — assume the worst
+  unknown: defineAdapter({ abi: [], utilization: 10000, liquidity: 0n }),
+};
+
+/** Looks up the configured adapter kind for a discovered source address */
+function resolveSourceKind(target: VaultTarget, address: string): SourceKind {
+  const declared = target.sources.find(
+    (s) => s.address.toLowerCase() === address.toLowerCase()
+  );
+  return declared ? declared.kind : "unknown";
+}
+
+/** getSourceRiskParams() on the vault, then each metric the adapter reads */
+function sourceReads(
+  target: VaultTarget,
+  address: string,
+  kind: SourceKind
+): ContractRead[] {
+  const { abi, utilization, liquidity, market, reserve } =
+    SOURCE_ADAPTERS[kind];
+  const reads: ContractRead[] = [
+    contractRead(
+      target.vaultAddress,
+      RISK_RECEIVER_ABI,
+      "getSourceRiskParams",
+      [address as Hex]
+    ),
+  ];
+  for (const metric of [utilization, liquidity, market, reserve]) {
+    if (typeof metric === "string") {
+      reads.push(contractRead(address, abi, metric));
+    }
+  }
+  return reads;
+}
+
+/** The adapter's state reads compared across the lookback, by health field */
+function lookbackReads(
+  address: string,
+  kind: SourceKind
+): { field: "market" | "reserve"; read: ContractRead }[] {
+  const { abi, market, reserve } = SOURCE_ADAPTERS[kind];
+  const reads: { field: "market" | "reserve"; read: ContractRead }[] = [];
+  if (market) {
+    reads.push({ field: "market", read: contractRead(address, abi, market) });
+  }
+  if (reserve) {
+    reads.push({ field: "reserve", read: contractRead(address, abi, reserve) });
+  }
+  return reads;
+}
+
+/** Inverse of sourceReads(): turns its results into position and health */
+function sourceFromReads(
+  runtime: Runtime<Config>,
+  address: string,
+  kind: SourceKind,
+  balance: bigint,
+  [paramsResult, ...metricResults]: ReadResult[]
+): {
+  position: SourcePosition;
+  health: Pick<
+    SourceHealth,
+    "utilizationBps" | "availableLiquidity" | "market" | "reserve"
+  >;
+} {
+  const { utilization, liquidity, market, reserve } = SOURCE_ADAPTERS[kind];
+
+  // A failed read leaves the metric unknown (null); the model scores it at
+  // maximum risk
+  const readMetric = <T = bigint>(): T | null => {
+    const result = metricResults.shift()!;
+    if (result.ok) return result.value as T;
+    runtime.log(`  [WARN] ${address} ${result.error}, metric unknown`);
+    return null;
+  };
+
+  let utilizationBps: number | null = null;
+  if (typeof utilization === "number") {
+    utilizationBps = utilization;
+  } else {
+    const value = readMetric();
+    utilizationBps = value === null ? null : Number(value);
+  }
+  const availableLiquidity =
+    typeof liquidity === "string" ? readMetric() : liquidity;
+  const marketState = market ? readMetric<MarketState>() : undefined;
+  const reserveState = reserve ? readMetric<ReserveState>() : undefined;
+
+  // Last risk params the workflow wrote for this source. A failed read is
+  // treated like never-written, which forces a fresh update.
+  let currentParams: SourcePosition["currentParams"];
+  if (!paramsResult.ok) {
+    runtime.log(
+      `  [WARN] getSourceRiskParams(${address}) failed: ${paramsResult.error}`
+    );
+  } else {
+    const params = paramsResult.value as {
+      liquidityHaircutBps: number;
+      stressOutflowBps: number;
+      maxConcentrationBps: number;
+      lastUpdated: bigint;
+      riskTier: number;
+    };
+    // lastUpdated == 0 means the vault still holds RiskModel.defaultParams()
+    if (params.lastUpdated > 0n) {
+      currentParams = {
+        liquidityHaircutBps: params.liquidityHaircutBps,
+        stressOutflowBps: params.stressOutflowBps,
+        maxConcentrationBps: params.maxConcentrationBps,
+        riskTier: params.riskTier,
+      };
+    }
+  }
+
+  return {
+    position: { address, kind, balance, currentParams },
+    health: {
+      utilizationBps,
+      availableLiquidity,
+      market: marketState,
+      reserve: reserveState,
+    },
+  };
+}
 
 // ═══════════════════════════════════════════════════════════════════════════
-// Helper: Execute a contract read via CRE EVMClient
+// Oracle Deviation
 // ═══════════════════════════════════════════════════════════════════════════
 
-function callContractRead(
-  runtime: Runtime<any>,
-  evmClient: EVMClient,
-  contractAddress: string,
-  calldata: `0x${string}`
-): `0x${string}` {
-  const result = evmClient
-    .callContract(runtime, {
-      call: encodeCallMsg({
-        from: ZERO_ADDRESS,
-        to: contractAddress as `0x${string}`,
-        data: calldata,
-      }),
-      blockNumber: LAST_FINALIZED_BLOCK_NUMBER,
-    })
-    .result();
-
-  // result.data is Uint8Array — convert to hex for viem decoding
-  return bytesToHex(result.data) as `0x${string}`;
+function oracleReads(
+  priceOracleAddress: string,
+  referenceFeedAddress: string
+): ContractRead[] {
+  return [
+    contractRead(priceOracleAddress, CHAINLINK_ORACLE_ABI, "isStale"),
+    contractRead(priceOracleAddress, CHAINLINK_ORACLE_ABI, "getRawPrice"),
+    contractRead(priceOracleAddress, CHAINLINK_ORACLE_ABI, "getPrice"),
+    contractRead(referenceFeedAddress, AGGREGATOR_V3_ABI, "decimals"),
+    contractRead(referenceFeedAddress, AGGREGATOR_V3_ABI, "latestRoundData"),
+  ];
+}
+
+/**
+ * Absolute deviation (bps) between the vault asset's ChainlinkOracle price and
+ * an independent reference feed, from the results of oracleReads(). A stale
+ * or non-positive price counts as maximum deviation; a failed read leaves the
+ * deviation unknown (null).
+ */
+function oracleDeviationFromReads(
+  runtime: Runtime<Config>,
+  [stale, raw, price, decimals, round]: ReadResult[]
+): number | null {
+  const unusable = (reason: string) => {
+    runtime.log(`  [WARN] ${reason}`);
+    return MAX_ORACLE_DEVIATION_BPS;
+  };
+  const unknown = (error: string) => {
+    runtime.log(`  [WARN] ${error}, oracle deviation unknown`);
+    return null;
+  };
+
+  if (!stale.ok) return unknown(`Price oracle ${stale.error}`);
+  if (stale.value) return unusable("Price oracle is stale");
+
+  // getPrice() reverts on a non-positive answer, so check the raw answer first
+  if (!raw.ok) return unknown(`Price oracle ${raw.error}`);
+  const [rawAnswer] = raw.value as [bigint, bigint];
+  if (rawAnswer <= 0n) {
+    return unusable(`Price oracle returned invalid answer ${rawAnswer}`);
+  }
+  if (!price.ok) return unknown(`Price oracle ${price.error}`);
+  const [oraclePrice] = price.value as [bigint, bigint];
+
+  // Reference feed, normalized to 18 decimals like ChainlinkOracle
+  if (!decimals.ok) return unknown(`Reference feed ${decimals.error}`);
+  if (!round.ok) return unknown(`Reference feed ${round.error}`);
+  const [, referenceAnswer] = round.value as [
+    bigint,
+    bigint,
+    bigint,
+    bigint,
+    bigint,
+  ];
+  if (referenceAnswer <= 0n) {
+    return unusable(`Reference feed returned invalid answer ${referenceAnswer}`);
+  }
+  const referencePrice = normalizeTo18Decimals(
+    referenceAnswer,
+    Number(decimals.value)
+  );
+
+  const diff =
+    oraclePrice > referencePrice
+      ? oraclePrice - referencePrice
+      : referencePrice - oraclePrice;
+  const deviationBps = (diff * 10000n) / referencePrice;
+
+  return deviationBps > BigInt(MAX_ORACLE_DEVIATION_BPS)
+    ? MAX_ORACLE_DEVIATION_BPS
+    : Number(deviationBps);
+}
+
+function normalizeTo18Decimals(value: bigint, decimals: number): bigint {
+  if (decimals < 18) return value * 10n ** BigInt(18 - decimals);
+  if (decimals > 18) return value / 10n ** BigInt(decimals - 18);
+  return value;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
-// Protocol Health Reader
+// Chain State Reader
 // ═══════════════════════════════════════════════════════════════════════════
 
-export function readProtocolHealth(
-  runtime: Runtime<any>,
+// The vault is a StreamVault that also implements IRiskReceiver
+const VAULT_ABI = [...STREAM_VAULT_ABI, ...RISK_RECEIVER_ABI] as const;
+
+// Vault-level reads, in the order their results are unpacked below
+const VAULT_FIELDS = [
+  "totalAssets",
+  "getYieldSources",
+  "getAllYieldSourceBalances",
+  "idleBalance",
+  "getPendingEpochWithdrawals",
+  "totalSupply",
+  "totalPendingShares",
+  "getCurrentEpochInfo",
+  "getRiskSnapshot",
+  "getEmergencyState",
+  "getRiskObservations",
+] as const satisfies readonly ContractFunctionName<typeof VAULT_ABI, "view">[];
+
+export interface ChainState {
+  /** Block every value was read at */
+  blockNumber: bigint;
+  vaultState: VaultState;
+  protocolHealth: ProtocolHealth; // same source order as vaultState.sources
+}
+
+/** Vault fields the model cannot run without — a failed read aborts the tick */
+function requireVaultField<T>(result: ReadResult, field: string): T {
+  if (!result.ok) {
+    throw new Error(`Failed to read StreamVault.${field}: ${result.error}`);
+  }
+  return result.value as T;
+}
+
+/**
+ * Assets a share count settles for at this block's NAV, as
+ * StreamVault._settleCurrentEpoch prices it: requested shares are already
+ * burned, so the supply they come out of adds totalPendingShares back.
+ */
+function settlementAssets(
+  shares: bigint,
+  totalAssets: bigint,
+  effectiveSupply: bigint
+): bigint {
+  return effectiveSupply > 0n ? (shares * totalAssets) / effectiveSupply : 0n;
+}
+
+const isOracleConfigured = (target: VaultTarget) =>
+  Boolean(target.priceOracleAddress && target.referenceFeedAddress);
+
+/**
+ * The first batch of a tick: vault fields, the oracle (when configured) and
+ * every configured source. This covers every selector the workflow calls, so
+ * the deploy preflight (preflight.ts) checks the same list.
+ */
+export function tickReads(target: VaultTarget): ContractRead[] {
+  return [
+    ...VAULT_FIELDS.map((functionName) =>
+      contractRead(target.vaultAddress, VAULT_ABI, functionName)
+    ),
+    ...(isOracleConfigured(target)
+      ? oracleReads(target.priceOracleAddress!, target.referenceFeedAddress!)
+      : []),
+    ...target.sources.flatMap((s) => sourceReads(target, s.address, s.kind)),
+  ];
+}
+
+/**
+ * Reads everything one tick scores. Lending markets and reserves are read a
+ * second time `lookbackBlocks` before the pinned block, for credit scoring
+ * and the liquidity index's growth.
+ *
+ * `minBlock` is the block of the event that triggered the run: when the
+ * finalized block predates it, the first batch is read again at that block,
+ * so the state scored includes the event.
+ */
+export function readChainState(
+  runtime: Runtime<Config>,
   evmClient: EVMClient,
-  config: any
-): ProtocolHealth {
-  runtime.log("  Reading Aave V3 yield source metrics...");
-
-  // Read Aave utilization from our yield source adapter
-  const aaveUtilHex = callContractRead(
-    runtime,
-    evmClient,
-    config.aaveSourceAddress,
-    encodeFunctionData({
-      abi: YIELD_SOURCE_ABI,
-      functionName: "getPoolUtilization",
-    })
-  );
-  const aaveUtilizationBps = Number(
-    decodeFunctionResult({
-      abi: YIELD_SOURCE_ABI,
-      functionName: "getPoolUtilization",
-      data: aaveUtilHex,
-    })
+  target: VaultTarget,
+  lookbackBlocks: number,
+  minBlock?: bigint
+): ChainState {
+  const oracleConfigured = isOracleConfigured(target);
+
+  // Configured sources are read speculatively so the usual tick is one batch
+  const configuredReads = target.sources.map((s) =>
+    sourceReads(target, s.address, s.kind)
   );
+  const reads = tickReads(target);
+
+  runtime.log(`  Reading vault, oracle and sources (${reads.length} calls)...`);
+  let batch = multicallRead(runtime, evmClient, reads, "finalized");
+  runtime.log(`  Pinned to finalized block ${batch.blockNumber}`);
+  if (minBlock !== undefined && batch.blockNumber < minBlock) {
+    runtime.log(
+      `  Finalized block predates the event at ${minBlock}; re-reading there`
+    );
+    batch = multicallRead(runtime, evmClient, reads, minBlock);
+  }
 
-  // Read Aave available liquidity
-  const aaveLiquidityHex = callContractRead(
-    runtime,
-    evmClient,
-    config.aaveSourceAddress,
-    encodeFunctionData({
-      abi: YIELD_SOURCE_ABI,
-      functionName: "getAvailableLiquidity",
-    })
+  const results = [...batch.results];
+  const vault = Object.fromEntries(
+    results.splice(0, VAULT_FIELDS.length).map((r, i) => [VAULT_FIELDS[i], r])
+  ) as Record<(typeof VAULT_FIELDS)[number], ReadResult>;
+
+  const totalAssets = requireVaultField<bigint>(
+    vault.totalAssets,
+    "totalAssets()"
   );
-  const aaveAvailableLiquidity = decodeFunctionResult({
-    abi: YIELD_SOURCE_ABI,
-    functionName: "getAvailableLiquidity",
-    data: aaveLiquidityHex,
-  }) as bigint;
-
-  runtime.log("  Reading Morpho vault metrics...");
-
-  // Read Morpho utilization from our yield source adapter
-  const morphoUtilHex = callContractRead(
-    runtime,
-    evmClient,
-    config.morphoSourceAddress,
-    encodeFunctionData({
-      abi: YIELD_SOURCE_ABI,
-      functionName: "getMarketUtilization",
-    })
+  const sourceAddresses = requireVaultField<readonly string[]>(
+    vault.getYieldSources,
+    "getYieldSources()"
   );
-  const morphoUtilizationBps = Number(
-    decodeFunctionResult({
-      abi: YIELD_SOURCE_ABI,
-      functionName: "getMarketUtilization",
-      data: morphoUtilHex,
-    })
+  // Same order as getYieldSources()
+  const sourceBalances = requireVaultField<readonly bigint[]>(
+    vault.getAllYieldSourceBalances,
+    "getAllYieldSourceBalances()"
   );
-
-  // Read Morpho available liquidity
-  const morphoLiquidityHex = callContractRead(
-    runtime,
-    evmClient,
-    config.morphoSourceAddress,
-    encodeFunctionData({
-      abi: YIELD_SOURCE_ABI,
-      functionName: "getAvailableLiquidity",
-    })
+  const idleBalance = requireVaultField<bigint>(
+    vault.idleBalance,
+    "idleBalance()"
+  );
+  // A share count: priced into assets below, as settlement will price it
+  const pendingShares = requireVaultField<bigint>(
+    vault.getPendingEpochWithdrawals,
+    "getPendingEpochWithdrawals()"
+  );
+  const totalSupply = requireVaultField<bigint>(
+    vault.totalSupply,
+    "totalSupply()"
+  );
+  const totalPendingShares = requireVaultField<bigint>(
+    vault.totalPendingShares,
+    "totalPendingShares()"
   );
-  const morphoAvailableLiquidity = decodeFunctionResult({
-    abi: YIELD_SOURCE_ABI,
-    functionName: "getAvailableLiquidity",
-    data: morphoLiquidityHex,
-  }) as bigint;
+  const [epochId, startTime, minDuration] = requireVaultField<
+    [bigint, bigint, bigint]
+  >(vault.getCurrentEpochInfo, "getCurrentEpochInfo()");
 
-  return {
-    aaveUtilizationBps,
-    aaveAvailableLiquidity,
-    aaveOracleDeviation: 0, // Would come from Chainlink price feed comparison
-    morphoUtilizationBps,
-    morphoAvailableLiquidity,
-    morphoMatchingRateBps: 10000, // MetaMorpho doesn't expose matching rate
-  };
-}
+  // Last snapshot the workflow wrote; unreadable means no hysteresis this tick
+  const snapshotResult = vault.getRiskSnapshot;
+  let lastSnapshot: VaultState["lastSnapshot"];
+  if (!snapshotResult.ok) {
+    runtime.log(`  [WARN] getRiskSnapshot() failed: ${snapshotResult.error}`);
+  } else {
+    const snapshot = snapshotResult.value as {
+      stressedLCR: bigint;
+      aggregateRiskScore: bigint;
+      timestamp: bigint;
+      systemStatus: number;
+    };
+    lastSnapshot = {
+      stressedLCR: Number(snapshot.stressedLCR),
+      aggregateRiskScore: Number(snapshot.aggregateRiskScore),
+      timestamp: Number(snapshot.timestamp),
+      systemStatus: snapshot.systemStatus,
+    };
+  }
 
-// ═══════════════════════════════════════════════════════════════════════════
-// Vault State Reader
-// ═══════════════════════════════════════════════════════════════════════════
+  // Emergency rung in force; unreadable means the time-in-RED count restarts
+  const emergencyResult = vault.getEmergencyState;
+  let emergency: VaultState["emergency"];
+  if (!emergencyResult.ok) {
+    runtime.log(
+      `  [WARN] getEmergencyState() failed: ${emergencyResult.error}`
+    );
+  } else {
+    const [severity, redSince] = emergencyResult.value as [number, bigint];
+    emergency = { severity, redSince: Number(redSince) };
+  }
 
-export function readVaultState(
-  runtime: Runtime<any>,
-  evmClient: EVMClient,
-  config: any
-): VaultState {
-  runtime.log("  Reading StreamVault state...");
-
-  // Read total assets
-  const totalAssetsHex = callContractRead(
-    runtime,
-    evmClient,
-    config.vaultAddress,
-    encodeFunctionData({
-      abi: STREAM_VAULT_ABI,
-      functionName: "totalAssets",
-    })
-  );
-  const totalAssets = decodeFunctionResult({
-    abi: STREAM_VAULT_ABI,
-    functionName: "totalAssets",
-    data: totalAssetsHex,
-  }) as bigint;
-
-  // Read Aave balance
-  const aaveBalanceHex = callContractRead(
-    runtime,
-    evmClient,
-    config.vaultAddress,
-    encodeFunctionData({
-      abi: STREAM_VAULT_ABI,
-      functionName: "getSourceBalance",
-      args: [config.aaveSourceAddress as `0x${string}`],
-    })
+  // Stored observation window; unreadable means no trend scoring this tick
+  const observationsResult = vault.getRiskObservations;
+  let observations: VaultState["observations"];
+  if (!observationsResult.ok) {
+    runtime.log(
+      `  [WARN] getRiskObservations() failed: ${observationsResult.error}`
+    );
+  } else {
+    const stored = observationsResult.value as readonly {
+      timestamp: bigint;
+      totalAssets: bigint;
+      sources: readonly {
+        source: string;
+        utilizationBps: number;
+        availableLiquidity: bigint;
+      }[];
+    }[];
+    observations = stored.map((o) => ({
+      timestamp: Number(o.timestamp),
+      totalAssets: o.totalAssets,
+      sources: o.sources.map((s) => ({
+        address: s.source,
+        utilizationBps: s.utilizationBps,
+        availableLiquidity: s.availableLiquidity,
+      })),
+    }));
+  }
+
+  // The vault asset's price backs every source, so one deviation applies to all
+  let oracleDeviationBps: number | null = 0;
+  if (oracleConfigured) {
+    oracleDeviationBps = oracleDeviationFromReads(
+      runtime,
+      results.splice(0, 5)
+    );
+  } else {
+    runtime.log("  [WARN] No price oracle configured, oracle deviation = 0");
+  }
+
+  const configuredResults = configuredReads.map((r) =>
+    results.splice(0, r.length)
   );
-  const aaveBalance = decodeFunctionResult({
-    abi: STREAM_VAULT_ABI,
-    functionName: "getSourceBalance",
-    data: aaveBalanceHex,
-  }) as bigint;
-
-  // Read Morpho balance
-  const morphoBalanceHex = callContractRead(
-    runtime,
-    evmClient,
-    config.vaultAddress,
-    encodeFunctionData({
-      abi: STREAM_VAULT_ABI,
-      functionName: "getSourceBalance",
-      args: [config.morphoSourceAddress as `0x${string}`],
-    })
+
+  // Sources registered on the vault but not in config: only their params are
+  // left to read, at the block the first batch was answered at
+  const unconfigured = sourceAddresses.filter(
+    (address) => resolveSourceKind(target, address) === "unknown"
   );
-  const morphoBalance = decodeFunctionResult({
-    abi: STREAM_VAULT_ABI,
-    functionName: "getSourceBalance",
-    data: morphoBalanceHex,
-  }) as bigint;
-
-  // Read idle balance
-  const idleBalanceHex = callContractRead(
-    runtime,
-    evmClient,
-    config.vaultAddress,
-    encodeFunctionData({
-      abi: STREAM_VAULT_ABI,
-      functionName: "idleBalance",
-    })
+  const unconfiguredReads = unconfigured.map((address) =>
+    sourceReads(target, address, "unknown")
   );
-  const idleBalance = decodeFunctionResult({
-    abi: STREAM_VAULT_ABI,
-    functionName: "idleBalance",
-    data: idleBalanceHex,
-  }) as bigint;
-
-  // Read pending withdrawals
-  const pendingHex = callContractRead(
-    runtime,
-    evmClient,
-    config.vaultAddress,
-    encodeFunctionData({
-      abi: STREAM_VAULT_ABI,
-      functionName: "getPendingEpochWithdrawals",
-    })
+  const followUp =
+    unconfigured.length > 0
+      ? [
+          ...multicallRead(
+            runtime,
+            evmClient,
+            unconfiguredReads.flat(),
+            batch.blockNumber
+          ).results,
+        ]
+      : [];
+  const unconfiguredResults = unconfiguredReads.map((r) =>
+    followUp.splice(0, r.length)
   );
-  const pendingWithdrawals = decodeFunctionResult({
-    abi: STREAM_VAULT_ABI,
-    functionName: "getPendingEpochWithdrawals",
-    data: pendingHex,
-  }) as bigint;
-
-  // Read epoch info
-  const epochInfoHex = callContractRead(
-    runtime,
-    evmClient,
-    config.vaultAddress,
-    encodeFunctionData({
-      abi: STREAM_VAULT_ABI,
-      functionName: "getCurrentEpochInfo",
-    })
+
+  const sources = sourceAddresses.map((address, i) => {
+    const kind = resolveSourceKind(target, address);
+    runtime.log(`  Reading ${kind} yield source ${address}...`);
+
+    let sourceResults: ReadResult[];
+    if (kind === "unknown") {
+      runtime.log(`  [WARN] Yield source ${address} has no configured adapter`);
+      sourceResults = unconfiguredResults[unconfigured.indexOf(address)];
+    } else {
+      const index = target.sources.findIndex(
+        (s) => s.address.toLowerCase() === address.toLowerCase()
+      );
+      sourceResults = configuredResults[index];
+    }
+
+    return sourceFromReads(
+      runtime,
+      address,
+      kind,
+      sourceBalances[i] ?? 0n,
+      sourceResults
+    );
+  });
+
+  // Only state known now has something to compare against
+  const lookback = sources.flatMap(({ position, health }) =>
+    lookbackReads(position.address, position.kind)
+      .filter(({ field }) => health[field])
+      .map((l) => ({ address: position.address, ...l }))
   );
-  const [_epochId, startTime, minDuration] = decodeFunctionResult({
-    abi: STREAM_VAULT_ABI,
-    functionName: "getCurrentEpochInfo",
-    data: epochInfoHex,
-  }) as [bigint, bigint, bigint];
+  const before = new Map<
+    string,
+    Pick<SourceHealth, "marketBefore" | "reserveBefore">
+  >();
+  if (lookback.length > 0 && batch.blockNumber > BigInt(lookbackBlocks)) {
+    const lookbackBlock = batch.blockNumber - BigInt(lookbackBlocks);
+    runtime.log(
+      `  Reading ${lookback.length} market/reserve state(s) at block ${lookbackBlock}...`
+    );
+    // A node without that block's state costs the comparison, not the tick
+    try {
+      const { results } = multicallRead(
+        runtime,
+        evmClient,
+        lookback.map((l) => l.read),
+        lookbackBlock
+      );
+      lookback.forEach(({ address, field }, i) => {
+        const result = results[i];
+        if (result.ok) {
+          before.set(address, {
+            ...before.get(address),
+            ...(field === "market"
+              ? { marketBefore: result.value as MarketState }
+              : { reserveBefore: result.value as ReserveState }),
+          });
+        } else {
+          runtime.log(
+            `  [WARN] ${address} ${result.error} at block ${lookbackBlock}, no ${field} comparison`
+          );
+        }
+      });
+    } catch (err) {
+      runtime.log(
+        `  [WARN] Lookback read at block ${lookbackBlock} failed: ${err instanceof Error ? err.message : err}`
+      );
+    }
+  }
 
   return {
-    totalAssets,
-    aaveBalance,
-    morphoBalance,
-    idleBalance,
-    pendingWithdrawals,
-    currentEpochStart: Number(startTime),
-    epochMinDuration: Number(minDuration),
-    aaveSourceAddress: config.aaveSourceAddress,
-    morphoSourceAddress: config.morphoSourceAddress,
+    blockNumber: batch.blockNumber,
+    vaultState: {
+      totalAssets,
+      idleBalance,
+      pendingWithdrawals: settlementAssets(
+        pendingShares,
+        totalAssets,
+        totalSupply + totalPendingShares
+      ),
+      currentEpochId: Number(epochId),
+      currentEpochStart: Number(startTime),
+      epochMinDuration: Number(minDuration),
+      sources: sources.map((s) => s.position),
+      lastSnapshot,
+      emergency,
+      observations,
+    },
+    protocolHealth: {
+      sources: sources.map(({ position, health }) => ({
+        address: position.address,
+        kind: position.kind,
+        ...health,
+        oracleDeviationBps,
+        ...before.get(position.address),
+      })),
+    },
   };
 }
@@ -0,0 +1,158 @@
+/**
+ * Defensive Rebalance Solver
+ *
+ * Sizes a REBALANCE: the smallest set of withdrawals (source → idle) that
+ * lifts every stress scenario's LCR back to a target, without pulling more
+ * than a pool can pay out and while trimming any source above its
+ * concentration cap.
+ *
+ * Moving W from a source with haircut h into idle raises HQLA by W × h / 10000
+ * and leaves outflows unchanged, so for a single scenario the cheapest fix
+ * drains the highest-haircut sources first. With several scenarios the solver
+ * repeats that for whichever scenario is currently worst.
+ *
+ * Pure functions, no CRE SDK dependencies — safe to run on every DON node.
+ */
+
+import { computeSourceHQLA } from "./risk-math";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Type Definitions
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface SolverSource {
+  address: string;
+  balance: bigint;
+  availableLiquidity: bigint | null; // null = unknown, nothing can be withdrawn
+  maxConcentrationBps: number;
+}
+
+export interface SolverScenario {
+  name: string;
+  outflows: bigint;
+  haircuts: number[]; // bps, same order as the sources
+}
+
+export interface RebalanceLeg {
+  source: string;
+  amount: bigint;
+  /** Why this leg exists, for the run log */
+  reason: string;
+}
+
+export interface RebalancePlan {
+  targetLCR: number; // bps
+  legs: RebalanceLeg[]; // at most one per source, in source order
+  projectedLCR: number; // worst scenario LCR after every leg
+  /** True when withdrawable liquidity runs out before the target is reached */
+  shortfall: boolean;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Solver
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function solveRebalance(input: {
+  sources: SolverSource[];
+  idleBalance: bigint;
+  totalAssets: bigint;
+  scenarios: SolverScenario[];
+  targetLCR: number;
+}): RebalancePlan {
+  const { sources, idleBalance, totalAssets, scenarios, targetLCR } = input;
+  const withdrawn = sources.map(() => 0n);
+  const reasons: string[][] = sources.map(() => []);
+
+  // A pool can pay out at most its available liquidity, and never more than
+  // the vault holds in it
+  const capacity = (i: number): bigint => {
+    const liquidity = sources[i].availableLiquidity ?? 0n;
+    const limit =
+      liquidity < sources[i].balance ? liquidity : sources[i].balance;
+    return limit - withdrawn[i];
+  };
+
+  // HQLA as computeRiskModel() counts it, after the withdrawals so far
+  const hqlaOf = (scenario: SolverScenario): bigint => {
+    let hqla = idleBalance;
+    sources.forEach((source, i) => {
+      hqla +=
+        withdrawn[i] +
+        computeSourceHQLA(source.balance - withdrawn[i], scenario.haircuts[i]);
+    });
+    return hqla;
+  };
+  const lcrOf = (scenario: SolverScenario): number =>
+    scenario.outflows > 0n
+      ? Number((hqlaOf(scenario) * 10000n) / scenario.outflows)
+      : 99999;
+  const worst = () => scenarios.reduce((w, s) => (lcrOf(s) < lcrOf(w) ? s : w));
+
+  // 1. Trim every source above its concentration cap
+  sources.forEach((source, i) => {
+    const cap = (totalAssets * BigInt(source.maxConcentrationBps)) / 10000n;
+    if (source.balance <= cap) return;
+    const excess = source.balance - cap;
+    const amount = excess < capacity(i) ? excess : capacity(i);
+    if (amount <= 0n) return;
+    withdrawn[i] += amount;
+    reasons[i].push(
+      `concentration: ${source.balance} held above the ${source.maxConcentrationBps} bps cap (${cap})` +
+        (amount < excess ? ", limited by available liquidity" : "")
+    );
+  });
+
+  // 2. Lift the worst scenario to the target, highest haircut first
+  let shortfall = false;
+  while (scenarios.length > 0) {
+    const scenario = worst();
+    if (lcrOf(scenario) >= targetLCR) break;
+
+    const pick = sources
+      .map((_, i) => i)
+      .filter((i) => scenario.haircuts[i] > 0 && capacity(i) > 0n)
+      .sort((a, b) => scenario.haircuts[b] - scenario.haircuts[a])[0];
+    if (pick === undefined) {
+      shortfall = true;
+      break;
+    }
+
+    // HQLA gain needed: ceil(target × outflows / 10000) − HQLA
+    const hqla = hqlaOf(scenario);
+    const required =
+      (BigInt(targetLCR) * scenario.outflows + 9999n) / 10000n - hqla;
+    const haircut = BigInt(Math.min(scenario.haircuts[pick], 10000));
+    const amount = (required * 10000n + haircut - 1n) / haircut;
+    const limited = amount > capacity(pick);
+
+    const before = lcrOf(scenario);
+    withdrawn[pick] += limited ? capacity(pick) : amount;
+    // Integer rounding in the HQLA sum can leave the target a unit short
+    while (lcrOf(scenario) < targetLCR && capacity(pick) > 0n) {
+      withdrawn[pick] += 1n;
+    }
+    reasons[pick].push(
+      `scenario "${scenario.name}": LCR ${before} → ${lcrOf(scenario)} bps (haircut ${scenario.haircuts[pick]} bps)` +
+        (limited ? ", limited by available liquidity" : "")
+    );
+  }
+
+  const legs = sources.flatMap((source, i) =>
+    withdrawn[i] > 0n
+      ? [
+          {
+            source: source.address,
+            amount: withdrawn[i],
+            reason: reasons[i].join("; "),
+          },
+        ]
+      : []
+  );
+
+  return {
+    targetLCR,
+    legs,
+    projectedLCR: scenarios.length > 0 ? lcrOf(worst()) : 99999,
+    shortfall,
+  };
+}
@@ -0,0 +1,193 @@
+import { describe, expect, test } from "bun:test";
+import { encodeAbiParameters, parseAbiParameters } from "viem";
+import {
+  checkReportRanges,
+  decodeReportPayload,
+  verifyReportPayload,
+  type UpdateParamsReport,
+} from "./report-decoder";
+import {
+  ACTION_UPDATE_RISK_PARAMS,
+  computeRiskModel,
+  REPORT_ENVELOPE_ABI,
+  UPDATE_PARAMS_ABI,
+  type ProtocolHealth,
+  type VaultState,
+} from "./risk-model";
+
+const AAVE = "0x0724eafD693c2c7F07fafa321b1bF75D2572f190";
+const MORPHO = "0x9197eC25246b992797C4DADc479874Cb0c473AeD";
+const NOW = 1_770_000_000;
+
+const health: ProtocolHealth = {
+  sources: [
+    {
+      address: AAVE,
+      kind: "aave-v3",
+      utilizationBps: 6500,
+      availableLiquidity: 900_000_000_000n,
+      oracleDeviationBps: 0,
+    },
+    {
+      address: MORPHO,
+      kind: "morpho-blue",
+      utilizationBps: 7200,
+      availableLiquidity: 600_000_000_000n,
+      oracleDeviationBps: 0,
+    },
+  ],
+};
+
+const vault: VaultState = {
+  totalAssets: 1_000_000_000_000n,
+  idleBalance: 100_000_000_000n,
+  pendingWithdrawals: 50_000_000_000n,
+  currentEpochId: 3,
+  currentEpochStart: NOW - 3600,
+  epochMinDuration: 86400,
+  sources: [
+    { address: AAVE, kind: "aave-v3", balance: 450_000_000_000n },
+    { address: MORPHO, kind: "morpho-blue", balance: 450_000_000_000n },
+  ],
+};
+
+// Re-encodes a decoded UPDATE_PARAMS report, so a test can put values the model never would
+const encodeUpdate = (report: UpdateParamsReport) =>
+  encodeAbiParameters(parseAbiParameters(REPORT_ENVELOPE_ABI), [
+    ACTION_UPDATE_RISK_PARAMS,
+    encodeAbiParameters(parseAbiParameters(UPDATE_PARAMS_ABI), [
+      report.sources as `0x${string}`[],
+      report.params,
+      report.snapshot,
+      report.bindingScenario,
+      report.policyHash as `0x${string}`,
+      report.degraded,
+      {
+        ...report.observation,
+        sources: report.observation.sources.map((o) => ({
+          ...o,
+          source: o.source as `0x${string}`,
+        })),
+      },
+    ]),
+  ]);
+
+const modelUpdate = () => {
+  const result = computeRiskModel(health, vault, NOW);
+  const report = decodeReportPayload(result.encodedPayload);
+  if (report.action !== "UPDATE_PARAMS") {
+    throw new Error(`expected UPDATE_PARAMS, got ${report.action}`);
+  }
+  return { result, report };
+};
+
+describe("decodeReportPayload", () => {
+  test("round-trips the model's param update", () => {
+    const { result, report } = modelUpdate();
+
+    expect(result.action).toBe("UPDATE_PARAMS");
+    expect(report.sources).toEqual([AAVE, MORPHO]);
+    expect(report.params.map((p) => p.liquidityHaircutBps)).toEqual(
+      result.newParams.map((p) => p.liquidityHaircutBps)
+    );
+    expect(report.snapshot.systemStatus).toBe(result.systemStatus);
+    expect(report.snapshot.timestamp).toBe(BigInt(NOW));
+    expect(report.policyHash).toBe(result.policyHash);
+    expect(report.observation.sources.map((o) => o.utilizationBps)).toEqual([
+      6500, 7200,
+    ]);
+  });
+
+  test("rejects a truncated envelope", () => {
+    const { result } = modelUpdate();
+    const truncated = result.encodedPayload.slice(0, -64);
+
+    expect(() => decodeReportPayload(truncated)).toThrow();
+    expect(() => verifyReportPayload(truncated, result)).toThrow();
+  });
+});
+
+describe("checkReportRanges", () => {
+  test("passes the model's own payload", () => {
+    const { report } = modelUpdate();
+    expect(checkReportRanges(report)).toEqual([]);
+  });
+
+  test("flags a haircut above MAX_HAIRCUT_BPS", () => {
+    const { report } = modelUpdate();
+    report.params[0].liquidityHaircutBps = 9501;
+
+    expect(checkReportRanges(report)).toEqual([
+      `params[0] (${AAVE}).liquidityHaircutBps 9501 > 9500`,
+    ]);
+  });
+
+  test("flags a risk tier and system status above RED", () => {
+    const { report } = modelUpdate();
+    report.params[1].riskTier = 4;
+    report.snapshot.systemStatus = 4;
+
+    expect(checkReportRanges(report)).toEqual([
+      `params[1] (${MORPHO}).riskTier 4 > 3`,
+      "snapshot.systemStatus 4 > 3",
+    ]);
+  });
+
+  test("flags a settle snapshot's system status above RED", () => {
+    expect(
+      checkReportRanges({
+        action: "SETTLE_EPOCH",
+        epochId: 1n,
+        policyHash: `0x${"00".repeat(32)}`,
+        degraded: false,
+        snapshot: {
+          stressedLCR: 15000n,
+          aggregateRiskScore: 2000n,
+          timestamp: BigInt(NOW),
+          systemStatus: 4,
+        },
+      })
+    ).toEqual(["snapshot.systemStatus 4 > 3"]);
+  });
+
+  test("flags an emergency rung above FULL_UNWIND", () => {
+    expect(
+      checkReportRanges({
+        action: "EMERGENCY_PAUSE",
+        severity: 4,
+        policyHash: `0x${"00".repeat(32)}`,
+        degraded: false,
+        redSince: BigInt(NOW),
+        unwindSource: "0x0000000000000000000000000000000000000000",
+        unwindAmount: 0n,
+      })
+    ).toEqual(["severity 4 > 3"]);
+  });
+});
+
+describe("verifyReportPayload", () => {
+  test("returns the decoded report when it matches the model", () => {
+    const { result } = modelUpdate();
+    expect(verifyReportPayload(result.encodedPayload, result).action).toBe(
+      "UPDATE_PARAMS"
+    );
+  });
+
+  test("rejects an out-of-range haircut with every problem listed", () => {
+    const { result, report } = modelUpdate();
+    report.params[0].liquidityHaircutBps = 9600;
+
+    expect(() => verifyReportPayload(encodeUpdate(report), result)).toThrow(
+      `Invalid report payload: params[0] (${AAVE}).liquidityHaircutBps 9600 > 9500; params[0] does not round-trip for ${AAVE}`
+    );
+  });
+
+  test("rejects a payload that no longer says what the model decided", () => {
+    const { result, report } = modelUpdate();
+    report.bindingScenario = "tampered";
+
+    expect(() => verifyReportPayload(encodeUpdate(report), result)).toThrow(
+      `bindingScenario "tampered" != model "${result.bindingScenario}"`
+    );
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * Report Payload Decoder
+ *
+ * Inverse of encodeReportPayload() in risk-model.ts. Decodes the
+ * (uint8 action, bytes data) envelope back into a typed report and checks
+ * every value fits the Solidity types StreamVault will decode it into.
+ *
+ * Pure functions, no CRE SDK dependencies — safe to run on every DON node.
+ */
+
+import { decodeAbiParameters, parseAbiParameters } from "viem";
+import {
+  ACTION_DEFENSIVE_REBALANCE,
+  ACTION_EMERGENCY_PAUSE,
+  ACTION_SETTLE_EPOCH,
+  ACTION_UPDATE_RISK_PARAMS,
+  DEFENSIVE_REBALANCE_ABI,
+  EMERGENCY_PAUSE_ABI,
+  REPORT_ENVELOPE_ABI,
+  SETTLE_EPOCH_ABI,
+  SEVERITY_FULL_UNWIND,
+  SEVERITY_PARTIAL_UNWIND,
+  UPDATE_PARAMS_ABI,
+  type RiskResult,
+} from "./risk-model";
+import { BPS, MAX_HAIRCUT_BPS, TIER_RED } from "./risk-math";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Type Definitions
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface DecodedSourceRiskParams {
+  liquidityHaircutBps: number;
+  stressOutflowBps: number;
+  maxConcentrationBps: number;
+  lastUpdated: bigint;
+  riskTier: number;
+}
+
+export interface DecodedRiskSnapshot {
+  stressedLCR: bigint;
+  aggregateRiskScore: bigint;
+  timestamp: bigint;
+  systemStatus: number;
+}
+
+export interface DecodedObservation {
+  timestamp: bigint;
+  totalAssets: bigint;
+  sources: {
+    source: string;
+    utilizationBps: number;
+    availableLiquidity: bigint;
+  }[];
+}
+
+export interface UpdateParamsReport {
+  action: "UPDATE_PARAMS";
+  sources: string[];
+  params: DecodedSourceRiskParams[];
+  snapshot: DecodedRiskSnapshot;
+  bindingScenario: string;
+  policyHash: string;
+  degraded: boolean;
+  observation: DecodedObservation;
+}
+
+export interface DefensiveRebalanceReport {
+  action: "REBALANCE";
+  legs: { source: string; amount: bigint }[];
+  policyHash: string;
+  degraded: boolean;
+  snapshot: DecodedRiskSnapshot;
+}
+
+export interface EmergencyPauseReport {
+  action: "EMERGENCY_PAUSE";
+  severity: number;
+  policyHash: string;
+  degraded: boolean;
+  redSince: bigint;
+  unwindSource: string;
+  unwindAmount: bigint;
+}
+
+export interface SettleEpochReport {
+  action: "SETTLE_EPOCH";
+  epochId: bigint;
+  policyHash: string;
+  degraded: boolean;
+  snapshot: DecodedRiskSnapshot;
+}
+
+export type DecodedReport =
+  | UpdateParamsReport
+  | DefensiveRebalanceReport
+  | EmergencyPauseReport
+  | SettleEpochReport;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Decoder
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Decodes an onReport() payload into a typed report.
+ * Throws if the envelope or the action data is malformed or the action is unknown.
+ */
+export function decodeReportPayload(payload: string): DecodedReport {
+  const [actionType, data] = decodeAbiParameters(
+    parseAbiParameters(REPORT_ENVELOPE_ABI),
+    payload as `0x${string}`
+  );
+
+  if (actionType === ACTION_UPDATE_RISK_PARAMS) {
+    const [
+      sources,
+      params,
+      snapshot,
+      bindingScenario,
+      policyHash,
+      degraded,
+      observation,
+    ] = decodeAbiParameters(parseAbiParameters(UPDATE_PARAMS_ABI), data);
+    return {
+      action: "UPDATE_PARAMS",
+      sources: [...sources],
+      params: params.map((p) => ({ ...p })),
+      snapshot: { ...snapshot },
+      bindingScenario,
+      policyHash,
+      degraded,
+      observation: {
+        timestamp: observation.timestamp,
+        totalAssets: observation.totalAssets,
+        sources: observation.sources.map((o) => ({ ...o })),
+      },
+    };
+  }
+
+  if (actionType === ACTION_DEFENSIVE_REBALANCE) {
+    const [legs, policyHash, degraded, snapshot] = decodeAbiParameters(
+      parseAbiParameters(DEFENSIVE_REBALANCE_ABI),
+      data
+    );
+    return {
+      action: "REBALANCE",
+      legs: legs.map((leg) => ({ ...leg })),
+      policyHash,
+      degraded,
+      snapshot: { ...snapshot },
+    };
+  }
+
+  if (actionType === ACTION_EMERGENCY_PAUSE) {
+    const [
+      severity,
+      policyHash,
+      degraded,
+      redSince,
+      unwindSource,
+      unwindAmount,
+    ] = decodeAbiParameters(parseAbiParameters(EMERGENCY_PAUSE_ABI), data);
+    return {
+      action: "EMERGENCY_PAUSE",
+      severity,
+      policyHash,
+      degraded,
+      redSince,
+      unwindSource,
+      unwindAmount,
+    };
+  }
+
+  if (actionType === ACTION_SETTLE_EPOCH) {
+    const [epochId, policyHash, degraded, snapshot] = decodeAbiParameters(
+      parseAbiParameters(SETTLE_EPOCH_ABI),
+      data
+    );
+    return {
+      action: "SETTLE_EPOCH",
+      epochId,
+      policyHash,
+      degraded,
+      snapshot: { ...snapshot },
+    };
+  }
+
+  throw new Error(`Unknown report action type: ${actionType}`);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Range Checks
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Returns every value in the report that StreamVault would reject or misread.
+ * An empty list means the report is safe to sign.
+ */
+export function checkReportRanges(report: DecodedReport): string[] {
+  const violations: string[] = [];
+
+  if (report.action === "UPDATE_PARAMS") {
+    if (report.sources.length !== report.params.length) {
+      violations.push(
+        `sources.length ${report.sources.length} != params.length ${report.params.length}`
+      );
+    }
+    report.params.forEach((p, i) => {
+      const label = `params[${i}] (${report.sources[i] ?? "?"})`;
+      if (p.liquidityHaircutBps > MAX_HAIRCUT_BPS) {
+        violations.push(
+          `${label}.liquidityHaircutBps ${p.liquidityHaircutBps} > ${MAX_HAIRCUT_BPS}`
+        );
+      }
+      if (p.stressOutflowBps > BPS) {
+        violations.push(`${label}.stressOutflowBps ${p.stressOutflowBps} > ${BPS}`);
+      }
+      if (p.maxConcentrationBps > BPS) {
+        violations.push(
+          `${label}.maxConcentrationBps ${p.maxConcentrationBps} > ${BPS}`
+        );
+      }
+      if (p.riskTier > TIER_RED) {
+        violations.push(`${label}.riskTier ${p.riskTier} > ${TIER_RED}`);
+      }
+    });
+    if (report.observation.timestamp !== report.snapshot.timestamp) {
+      violations.push(
+        `observation.timestamp ${report.observation.timestamp} != snapshot.timestamp ${report.snapshot.timestamp}`
+      );
+    }
+    report.observation.sources.forEach((o, i) => {
+      if (o.utilizationBps > BPS) {
+        violations.push(
+          `observation.sources[${i}] (${o.source}).utilizationBps ${o.utilizationBps} > ${BPS}`
+        );
+      }
+    });
+  }
+
+  // Every report but a pause carries the snapshot it was decided on
+  if (report.action !== "EMERGENCY_PAUSE") {
+    if (report.snapshot.systemStatus > TIER_RED) {
+      violations.push(
+        `snapshot.systemStatus ${report.snapshot.systemStatus} > ${TIER_RED}`
+      );
+    }
+    if (report.snapshot.aggregateRiskScore > BigInt(BPS)) {
+      violations.push(
+        `snapshot.aggregateRiskScore ${report.snapshot.aggregateRiskScore} > ${BPS}`
+      );
+    }
+  }
+
+  if (report.action === "REBALANCE") {
+    if (report.legs.length === 0) {
+      violations.push("rebalance has no legs");
+    }
+    const seen = new Set<string>();
+    report.legs.forEach((leg, i) => {
+      const source = leg.source.toLowerCase();
+      if (source === ZERO_ADDRESS) {
+        violations.push(`legs[${i}].source is the zero address`);
+      }
+      if (seen.has(source)) {
+        violations.push(`legs[${i}].source ${leg.source} repeats an earlier leg`);
+      }
+      seen.add(source);
+      if (leg.amount === 0n) {
+        violations.push(`legs[${i}].amount is zero`);
+      }
+    });
+  }
+
+  if (report.action === "EMERGENCY_PAUSE") {
+    if (report.severity > SEVERITY_FULL_UNWIND) {
+      violations.push(`severity ${report.severity} > ${SEVERITY_FULL_UNWIND}`);
+    }
+    if (report.redSince === 0n) {
+      violations.push("redSince is zero");
+    }
+    // Only a partial unwind names a source; the other rungs carry none
+    const hasSource = report.unwindSource.toLowerCase() !== ZERO_ADDRESS;
+    if (report.severity === SEVERITY_PARTIAL_UNWIND) {
+      if (!hasSource) {
+        violations.push("partial unwind source is the zero address");
+      }
+      if (report.unwindAmount === 0n) {
+        violations.push("partial unwind amount is zero");
+      }
+    } else if (hasSource || report.unwindAmount !== 0n) {
+      violations.push(
+        `severity ${report.severity} carries an unwind source or amount`
+      );
+    }
+  }
+
+  return violations;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Round-Trip Verifier
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Decodes a payload produced by computeRiskModel() and checks that it is in
+ * range and still says what the model decided. Throws with every problem found.
+ */
+export function verifyReportPayload(
+  payload: string,
+  expected: RiskResult
+): DecodedReport {
+  const report = decodeReportPayload(payload);
+  const violations = checkReportRanges(report);
+
+  if (report.action !== expected.action) {
+    violations.push(
+      `decoded action ${report.action} != model action ${expected.action}`
+    );
+  }
+
+  if (report.policyHash.toLowerCase() !== expected.policyHash.toLowerCase()) {
+    violations.push(
+      `policyHash ${report.policyHash} != model ${expected.policyHash}`
+    );
+  }
+  if (report.degraded !== expected.degraded) {
+    violations.push(`degraded ${report.degraded} != model ${expected.degraded}`);
+  }
+  if (report.action !== "EMERGENCY_PAUSE") {
+    if (Number(report.snapshot.stressedLCR) !== expected.stressedLCR) {
+      violations.push(
+        `snapshot.stressedLCR ${report.snapshot.stressedLCR} != model ${expected.stressedLCR}`
+      );
+    }
+    if (report.snapshot.systemStatus !== expected.systemStatus) {
+      violations.push(
+        `snapshot.systemStatus ${report.snapshot.systemStatus} != model ${expected.systemStatus}`
+      );
+    }
+  }
+
+  if (report.action === "UPDATE_PARAMS") {
+    if (report.sources.length !== expected.newParams.length) {
+      violations.push(
+        `decoded ${report.sources.length} sources, model produced ${expected.newParams.length}`
+      );
+    }
+    expected.newParams.forEach((p, i) => {
+      const decoded = report.params[i];
+      const source = report.sources[i];
+      if (
+        !decoded ||
+        !source ||
+        source.toLowerCase() !== p.address.toLowerCase() ||
+        decoded.liquidityHaircutBps !== p.liquidityHaircutBps ||
+        decoded.stressOutflowBps !== p.stressOutflowBps ||
+        decoded.maxConcentrationBps !== p.maxConcentrationBps ||
+        decoded.riskTier !== p.riskTier
+      ) {
+        violations.push(`params[${i}] does not round-trip for ${p.address}`);
+      }
+    });
+    if (report.bindingScenario !== expected.bindingScenario) {
+      violations.push(
+        `bindingScenario "${report.bindingScenario}" != model "${expected.bindingScenario}"`
+      );
+    }
+    const observed = expected.observation.sources;
+    if (
+      report.observation.totalAssets !== expected.observation.totalAssets ||
+      report.observation.sources.length !== observed.length ||
+      observed.some((o, i) => {
+        const decoded = report.observation.sources[i];
+        return (
+          decoded.source.toLowerCase() !== o.address.toLowerCase() ||
+          decoded.utilizationBps !== o.utilizationBps ||
+          decoded.availableLiquidity !== o.availableLiquidity
+        );
+      })
+    ) {
+      violations.push("observation does not round-trip");
+    }
+  }
+
+  if (report.action === "REBALANCE") {
+    const legs = expected.rebalancePlan?.legs ?? [];
+    if (report.legs.length !== legs.length) {
+      violations.push(
+        `decoded ${report.legs.length} rebalance legs, model produced ${legs.length}`
+      );
+    }
+    legs.forEach((leg, i) => {
+      const decoded = report.legs[i];
+      if (
+        !decoded ||
+        decoded.source.toLowerCase() !== leg.source.toLowerCase() ||
+        decoded.amount !== leg.amount
+      ) {
+        violations.push(`legs[${i}] does not round-trip for ${leg.source}`);
+      }
+    });
+  }
+
+  if (report.action === "EMERGENCY_PAUSE" && expected.emergency) {
+    const emergency = expected.emergency;
+    if (report.severity !== emergency.severity) {
+      violations.push(
+        `severity ${report.severity} != model ${emergency.severity}`
+      );
+    }
+    if (Number(report.redSince) !== emergency.redSince) {
+      violations.push(
+        `redSince ${report.redSince} != model ${emergency.redSince}`
+      );
+    }
+    if (
+      report.unwindSource.toLowerCase() !==
+        (emergency.unwindSource ?? ZERO_ADDRESS).toLowerCase() ||
+      report.unwindAmount !== emergency.unwindAmount
+    ) {
+      violations.push(
+        `unwind ${report.unwindAmount} from ${report.unwindSource} does not round-trip`
+      );
+    }
+  }
+
+  if (violations.length > 0) {
+    throw new Error(`Invalid report payload: ${violations.join("; ")}`);
+  }
+
+  return report;
+}
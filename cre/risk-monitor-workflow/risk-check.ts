@@ -0,0 +1,431 @@
+/**
+ * Risk Check Handler
+ *
+ * The per-tick pipeline: read on-chain state, run the risk model, and submit a
+ * DON-signed report when action is needed. Kept out of main.ts so it can be
+ * driven by the offline simulation harness without starting the Runner.
+ *
+ * Two handlers share the pipeline: the cron baseline and the vault event
+ * trigger (vault-events.ts). The cron runs it once per configured target,
+ * each with its own EVMClient and report; a vault event runs it for the
+ * target that emitted it.
+ *
+ * Both return a RiskRunReport (run-report.ts) and log it as the run's last
+ * line, one JSON object for monitoring to parse. With `alerts` configured,
+ * each target's entry is also posted to the webhooks (alerts.ts).
+ */
+
+import {
+  cre,
+  getNetwork,
+  hexToBase64,
+  bytesToHex,
+  TxStatus,
+  type Runtime,
+  type CronPayload,
+  type EVMLog,
+} from "@chainlink/cre-sdk";
+import { keccak256 } from "viem";
+import { sendAlerts, type HTTPClient } from "./alerts";
+import type { Config, VaultTarget } from "./config";
+import { computeRiskModel, SEVERITY_LABELS, STATUS_LABELS } from "./risk-model";
+import { DEFAULT_RISK_POLICY } from "./risk-policy";
+import { readChainState, type EVMClient } from "./protocol-readers";
+import { verifyReportPayload } from "./report-decoder";
+import {
+  RUN_REPORT_SCHEMA_VERSION,
+  reportInputs,
+  reportRisk,
+  reportTrigger,
+  type RiskRunReport,
+  type RunOutcome,
+  type TargetRunReport,
+} from "./run-report";
+import {
+  decodeVaultEvent,
+  runsInWindow,
+  type VaultEvent,
+} from "./vault-events";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Dependencies — swapped out by the simulation harness
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type RiskCheckDeps = {
+  /** Builds the EVM client for the resolved chain selector */
+  createEvmClient: (chainSelector: bigint) => EVMClient;
+  /** Builds the HTTP client alerts are posted with */
+  createHttpClient: () => HTTPClient;
+};
+
+const DEFAULT_DEPS: RiskCheckDeps = {
+  createEvmClient: (chainSelector) =>
+    new cre.capabilities.EVMClient(chainSelector),
+  createHttpClient: () => new cre.capabilities.HTTPClient(),
+};
+
+/** Log form of a health metric; null means its read failed */
+const formatMetric = (value: number | bigint | null, unit = "") =>
+  value === null ? "unknown" : `${value}${unit}`;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Handlers — cron baseline and vault events
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Executes on every DON cron tick, for every configured target */
+export const onRiskCheck = (
+  runtime: Runtime<Config>,
+  _payload: CronPayload,
+  deps: RiskCheckDeps = DEFAULT_DEPS
+): RiskRunReport => runTargets(runtime, runtime.config.targets, deps);
+
+/**
+ * Executes on every WithdrawRequested, DrawdownCircuitBreaker or VaultPaused
+ * emitted by `target`'s vault
+ */
+export const onVaultEvent = (
+  runtime: Runtime<Config>,
+  log: EVMLog,
+  target: VaultTarget,
+  deps: RiskCheckDeps = DEFAULT_DEPS
+): RiskRunReport => runTargets(runtime, [target], deps, decodeVaultEvent(log));
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Risk Check Pipeline
+// ═══════════════════════════════════════════════════════════════════════════
+
+const describeTarget = (target: VaultTarget) =>
+  `${target.vaultAddress} on ${target.chainSelectorName}`;
+
+/** What runRiskCheck() learned about a target, filled in as it goes */
+type TargetFindings = Pick<
+  TargetRunReport,
+  "inputs" | "risk" | "payloadHash" | "txHash" | "error"
+>;
+
+/** Runs the pipeline for each target; a throw fails only that target */
+function runTargets(
+  runtime: Runtime<Config>,
+  targets: VaultTarget[],
+  deps: RiskCheckDeps,
+  event?: VaultEvent
+): RiskRunReport {
+  const startedAt = runtime.now();
+  runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  runtime.log("CRE Risk Monitor: Starting health check");
+  runtime.log(`  Execution time: ${startedAt.toISOString()}`);
+  runtime.log(
+    event
+      ? `  Trigger: ${event.name} at block ${event.blockNumber} — ${event.detail}`
+      : "  Trigger: cron"
+  );
+  runtime.log(`  Targets: ${targets.length}`);
+  runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+  const targetReports = targets.map((target, i): TargetRunReport => {
+    runtime.log(
+      `[Target ${i + 1}/${targets.length}] ${describeTarget(target)}`
+    );
+    const targetStartedAt = runtime.now();
+    const findings: TargetFindings = {};
+    let outcome: RunOutcome;
+    try {
+      outcome = runRiskCheck(runtime, target, deps, findings, event);
+    } catch (err) {
+      findings.error = err instanceof Error ? err.message : String(err);
+      runtime.log(`[ERROR] ${findings.error}`);
+      outcome = "error_exception";
+    }
+    const targetFinishedAt = runtime.now();
+    const targetReport: TargetRunReport = {
+      chainSelectorName: target.chainSelectorName,
+      vaultAddress: target.vaultAddress,
+      outcome,
+      startedAt: targetStartedAt.toISOString(),
+      finishedAt: targetFinishedAt.toISOString(),
+      durationMs: targetFinishedAt.getTime() - targetStartedAt.getTime(),
+      ...findings,
+    };
+
+    // After the write, so an alert can never hold up the report
+    if (runtime.config.alerts) {
+      sendAlerts(
+        runtime,
+        deps.createHttpClient(),
+        runtime.config.alerts,
+        targetReport
+      );
+    }
+    return targetReport;
+  });
+
+  runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  runtime.log("Run summary:");
+  targetReports.forEach((report) => {
+    runtime.log(
+      `  ${report.vaultAddress} on ${report.chainSelectorName}: ${report.outcome}`
+    );
+  });
+
+  const report: RiskRunReport = {
+    schemaVersion: RUN_REPORT_SCHEMA_VERSION,
+    trigger: reportTrigger(event),
+    startedAt: startedAt.toISOString(),
+    finishedAt: runtime.now().toISOString(),
+    targets: targetReports,
+  };
+  runtime.log(JSON.stringify(report));
+  return report;
+}
+
+function runRiskCheck(
+  runtime: Runtime<Config>,
+  target: VaultTarget,
+  deps: RiskCheckDeps,
+  findings: TargetFindings,
+  event?: VaultEvent
+): RunOutcome {
+  const config = runtime.config;
+
+  // Resolve chain selector (bigint) from the human-readable name
+  const network = getNetwork({
+    chainFamily: "evm",
+    chainSelectorName: target.chainSelectorName,
+    isTestnet: target.isTestnet,
+  });
+
+  if (!network) {
+    findings.error = `Unknown chain: ${target.chainSelectorName}`;
+    runtime.log(`[ERROR] ${findings.error}`);
+    return "error_unknown_chain";
+  }
+
+  const evmClient = deps.createEvmClient(network.chainSelector.selector);
+
+  // One run per burst, unless later requests outgrow what the last run saw
+  if (event && !runsInWindow(runtime, evmClient, config, target, event)) {
+    runtime.log(
+      "[Debounced] An earlier vault event in this window already ran the check."
+    );
+    return "debounced";
+  }
+
+  // ─── Step 1: Read on-chain state ────────────────────────────────────
+  runtime.log("[Step 1] Reading protocol health metrics...");
+
+  const policy = config.riskPolicy ?? DEFAULT_RISK_POLICY;
+  const { blockNumber, vaultState, protocolHealth } = readChainState(
+    runtime,
+    evmClient,
+    target,
+    policy.credit.lookbackBlocks,
+    event?.blockNumber
+  );
+  findings.inputs = reportInputs(blockNumber, vaultState, protocolHealth);
+
+  runtime.log(`  Vault TVL:          ${vaultState.totalAssets}`);
+  runtime.log(`  Idle balance:       ${vaultState.idleBalance}`);
+  runtime.log(`  Pending withdrawals: ${vaultState.pendingWithdrawals}`);
+  vaultState.sources.forEach((source, i) => {
+    const health = protocolHealth.sources[i];
+    runtime.log(`  [${source.kind}] ${source.address}`);
+    runtime.log(
+      `    Utilization: ${formatMetric(health.utilizationBps, " bps")}`
+    );
+    runtime.log(`    Liquidity:   ${formatMetric(health.availableLiquidity)}`);
+    runtime.log(
+      `    Oracle dev:  ${formatMetric(health.oracleDeviationBps, " bps")}`
+    );
+    if (health.market) {
+      runtime.log(
+        `    Market:      supply ${health.market.totalSupplyAssets}, borrow ${health.market.totalBorrowAssets}, LLTV ${health.market.lltv}, collateral price ${health.market.collateralPrice}`
+      );
+    }
+    if (health.reserve) {
+      runtime.log(
+        `    Reserve:     active ${health.reserve.active}, frozen ${health.reserve.frozen}, paused ${health.reserve.paused}, supplied ${health.reserve.totalSupplied} of cap ${health.reserve.supplyCap}, index ${health.reserve.liquidityIndex}`
+      );
+    }
+    runtime.log(`    Balance:     ${source.balance}`);
+  });
+
+  // A request for an epoch that has since settled needs no immediate run
+  if (
+    event?.epochId !== undefined &&
+    event.epochId !== vaultState.currentEpochId
+  ) {
+    runtime.log(
+      `[Skipped] Event epoch ${event.epochId} is not the current epoch ${vaultState.currentEpochId}.`
+    );
+    return "skipped_stale_epoch";
+  }
+
+  // ─── Step 2: Compute risk model ─────────────────────────────────────
+  runtime.log("[Step 2] Computing risk model...");
+
+  const nowUnixSeconds = Math.floor(runtime.now().getTime() / 1000);
+  const riskResult = computeRiskModel(
+    protocolHealth,
+    vaultState,
+    nowUnixSeconds,
+    config.stressScenarios,
+    policy
+  );
+  findings.risk = reportRisk(riskResult, vaultState);
+
+  riskResult.sourceScores.forEach((source, i) => {
+    runtime.log(`  [${source.kind}] risk score: ${source.score}/10000`);
+    const trend = riskResult.trends[i];
+    if (trend.penalty > 0) {
+      runtime.log(
+        `    trend: utilization +${trend.utilizationRiseBpsPerHour} bps/h, liquidity -${trend.liquidityDrainBpsPerHour} bps/h, TVL -${riskResult.tvlOutflowBpsPerHour} bps/h → +${trend.penalty}`
+      );
+    }
+    const credit = riskResult.credits.find((c) => c.address === source.address);
+    if (credit?.badDebt !== undefined && credit.risk > 0) {
+      runtime.log(
+        `    credit: bad debt ${credit.badDebt} (${credit.badDebtBps} bps), collateral -${credit.collateralDropBps} bps of a ${credit.lltvBufferBps} bps LLTV buffer → ${credit.risk}`
+      );
+    }
+    const reserve = riskResult.reserves.find(
+      (r) => r.address === source.address
+    );
+    if (reserve && reserve.flags.length > 0) {
+      runtime.log(
+        `    [WARN] reserve ${reserve.flags.join(", ")} → forced to RED`
+      );
+    }
+    if (reserve?.yieldStalled) {
+      runtime.log(
+        `    [WARN] yield anomaly: liquidity index has not grown in ${policy.credit.lookbackBlocks} blocks`
+      );
+    }
+    const exposure = riskResult.exposures[i];
+    runtime.log(
+      `    exit capacity: ${exposure.exitCapacity} → cap ${exposure.capBps} bps`
+    );
+  });
+  if (riskResult.idleFloor > 0n) {
+    runtime.log(
+      `  Idle floor:       ${riskResult.idleFloor} (caps sum below 100%)`
+    );
+  }
+  riskResult.scenarioResults.forEach((scenario) => {
+    runtime.log(`  Scenario "${scenario.name}": LCR ${scenario.stressedLCR} bps`);
+  });
+  runtime.log(`  Stressed LCR:     ${riskResult.stressedLCR} bps`);
+  runtime.log(`  Binding scenario: ${riskResult.bindingScenario}`);
+  runtime.log(
+    `  Risk policy:      ${riskResult.policyVersion} (${riskResult.policyHash})`
+  );
+  runtime.log(`  System status:    ${STATUS_LABELS[riskResult.systemStatus]}`);
+  runtime.log(`  Decided action:   ${riskResult.action}`);
+  if (riskResult.degraded) {
+    runtime.log(
+      `  [WARN] Degraded: ${riskResult.unknownMetrics.length} unknown metric(s) scored at maximum risk`
+    );
+    riskResult.unknownMetrics.forEach((metric) => {
+      runtime.log(`    ${metric}`);
+    });
+  }
+  const plan = riskResult.rebalancePlan;
+  if (plan) {
+    runtime.log(
+      `  Rebalance plan:   target LCR ${plan.targetLCR} bps, projected ${plan.projectedLCR} bps`
+    );
+    plan.legs.forEach((leg) => {
+      runtime.log(`    withdraw ${leg.amount} from ${leg.source}`);
+      runtime.log(`      ${leg.reason}`);
+    });
+    if (plan.shortfall) {
+      runtime.log(
+        "  [WARN] Withdrawable liquidity runs out before the target LCR"
+      );
+    }
+  }
+  const emergency = riskResult.emergency;
+  if (emergency) {
+    runtime.log(
+      `  Emergency rung:   ${SEVERITY_LABELS[emergency.severity]} (${emergency.trigger})`
+    );
+    runtime.log(
+      `  Time in RED:      ${emergency.secondsInRed}s since ${emergency.redSince}`
+    );
+    if (emergency.unwindSource) {
+      runtime.log(
+        `    unwind ${emergency.unwindAmount} from ${emergency.unwindSource}`
+      );
+    }
+  }
+  runtime.log("  Decisions:");
+  riskResult.decisions.forEach((decision) => {
+    runtime.log(`    ${decision}`);
+  });
+  runtime.log(`  New params:`);
+  riskResult.newParams.forEach((params) => {
+    runtime.log(`    ${params.address}:`);
+    runtime.log(`      Haircut:       ${params.liquidityHaircutBps} bps`);
+    runtime.log(`      Concentration: ${params.maxConcentrationBps} bps`);
+  });
+
+  // ─── Step 3: Generate signed report if action needed ─────────────────
+  if (riskResult.action === "NONE") {
+    runtime.log(
+      emergency
+        ? "[Step 3] No action needed. The vault already runs this emergency rung."
+        : "[Step 3] No action needed. Params and status match the last on-chain report."
+    );
+    return riskResult.degraded ? "healthy_degraded" : "healthy";
+  }
+
+  runtime.log(`[Step 3] Generating DON-signed report for: ${riskResult.action}`);
+
+  // Decode the payload again and range-check it before anything gets signed
+  try {
+    verifyReportPayload(riskResult.encodedPayload, riskResult);
+  } catch (err) {
+    findings.error = err instanceof Error ? err.message : String(err);
+    runtime.log(`[ERROR] ${findings.error}`);
+    return "error_invalid_payload";
+  }
+  findings.payloadHash = keccak256(riskResult.encodedPayload as `0x${string}`);
+
+  // The encodedPayload is ABI-encoded hex (0x-prefixed) from the risk model.
+  // It matches the Solidity decoding: abi.decode(report, (uint8, bytes))
+  // We convert hex -> base64 for the CRE report API.
+  const reportResponse = runtime
+    .report({
+      encodedPayload: hexToBase64(riskResult.encodedPayload),
+      encoderName: "evm",
+      signingAlgo: "ecdsa",
+      hashingAlgo: "keccak256",
+    })
+    .result();
+
+  // ─── Step 4: Submit report on-chain via Forwarder ────────────────────
+  runtime.log("[Step 4] Submitting report to vault via KeystoneForwarder...");
+  runtime.log(`  Target: ${target.vaultAddress}`);
+
+  const writeResult = evmClient
+    .writeReport(runtime, {
+      receiver: target.vaultAddress,
+      report: reportResponse,
+      gasConfig: { gasLimit: target.gasLimit },
+    })
+    .result();
+
+  if (writeResult.txStatus !== TxStatus.SUCCESS) {
+    findings.error = `Transaction failed: ${writeResult.errorMessage || "unknown error"}`;
+    runtime.log(`[ERROR] ${findings.error}`);
+    runtime.log(`  Status: ${writeResult.txStatus}`);
+    return "error_tx_failed";
+  }
+
+  const txHash = bytesToHex(writeResult.txHash || new Uint8Array(32));
+  findings.txHash = txHash;
+  runtime.log(`[Complete] Transaction successful!`);
+  runtime.log(`  TX Hash: ${txHash}`);
+  runtime.log(`  Action:  ${riskResult.action}`);
+
+  return riskResult.degraded ? "action_taken_degraded" : "action_taken";
+}
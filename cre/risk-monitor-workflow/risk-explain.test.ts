@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+import { explainRisk } from "./risk-explain";
+import {
+  computeRiskModel,
+  SCORE_COMPONENTS,
+  type ProtocolHealth,
+  type VaultState,
+} from "./risk-model";
+import { DEFAULT_RISK_POLICY } from "./risk-policy";
+
+const AAVE = "0x0724eafD693c2c7F07fafa321b1bF75D2572f190";
+const MORPHO = "0x9197eC25246b992797C4DADc479874Cb0c473AeD";
+const NOW = 1_770_000_000;
+
+// The Morpho liquidity crunch: 97% utilized with 20k left to withdraw
+const health: ProtocolHealth = {
+  sources: [
+    {
+      address: AAVE,
+      kind: "aave-v3",
+      utilizationBps: 8800,
+      availableLiquidity: 450_000_000_000n,
+      oracleDeviationBps: 0,
+    },
+    {
+      address: MORPHO,
+      kind: "morpho-blue",
+      utilizationBps: 9700,
+      availableLiquidity: 20_000_000_000n,
+      oracleDeviationBps: 0,
+    },
+  ],
+};
+
+const vault: VaultState = {
+  totalAssets: 1_000_000_000_000n,
+  idleBalance: 50_000_000_000n,
+  pendingWithdrawals: 250_000_000_000n,
+  currentEpochId: 3,
+  currentEpochStart: NOW - 3600,
+  epochMinDuration: 86400,
+  sources: [
+    { address: AAVE, kind: "aave-v3", balance: 450_000_000_000n },
+    { address: MORPHO, kind: "morpho-blue", balance: 500_000_000_000n },
+  ],
+};
+
+describe("score breakdown", () => {
+  test("weighted components add up to the source score", () => {
+    const result = computeRiskModel(health, vault, NOW);
+    const morpho = result.sourceScores[1];
+
+    // No market state: the other four weights scale up to fill credit's share
+    const { weights } = DEFAULT_RISK_POLICY;
+    const utilizationWeight =
+      (weights.utilization * 10000) / (10000 - weights.credit);
+    expect(morpho.components.utilization).toEqual({
+      value: 10000,
+      weightBps: utilizationWeight,
+      contribution: utilizationWeight,
+    });
+    expect(morpho.components.credit.weightBps).toBe(0);
+    for (const source of result.sourceScores) {
+      const total = SCORE_COMPONENTS.reduce(
+        (sum, name) => sum + source.components[name].contribution,
+        0
+      );
+      expect(Math.floor(total) + source.trendPenalty).toBe(source.score);
+    }
+  });
+});
+
+describe("decisions", () => {
+  test("the status decision names the band threshold it crossed", () => {
+    const result = computeRiskModel(health, vault, NOW);
+
+    expect(result.decisions[0]).toBe("LCR 11181 < 12000 → ORANGE");
+    expect(result.decisions).toContain(
+      `morpho-blue ${MORPHO}: score 7250 < 8000 → haircut 5000 bps, tier 2`
+    );
+    expect(result.decisions).toContain(
+      "target LCR 12000 bps → 2 leg(s), projected 12000 bps"
+    );
+  });
+
+  test("a status held by hysteresis names the exit threshold", () => {
+    const result = computeRiskModel(
+      health,
+      {
+        ...vault,
+        pendingWithdrawals: 200_000_000_000n,
+        lastSnapshot: {
+          stressedLCR: 11000,
+          aggregateRiskScore: 6000,
+          timestamp: NOW - 300,
+          systemStatus: 2,
+        },
+      },
+      NOW
+    );
+
+    expect(result.stressedLCR).toBeGreaterThanOrEqual(12000);
+    expect(result.decisions[0]).toBe(
+      `LCR ${result.stressedLCR} < ORANGE exit 12500, held → ORANGE`
+    );
+  });
+});
+
+describe("explainRisk", () => {
+  test("renders components, decisions and unknown metrics", () => {
+    const text = explainRisk(
+      computeRiskModel(
+        {
+          sources: [
+            health.sources[0],
+            { ...health.sources[1], oracleDeviationBps: null },
+          ],
+        },
+        vault,
+        NOW
+      )
+    );
+    const lines = text.split("\n");
+
+    expect(lines[0]).toBe("Status RED, action EMERGENCY_PAUSE");
+    expect(lines).toContain(`morpho-blue ${MORPHO}: score 9250/10000`);
+    expect(lines).toContain("  oracle           10000 ×  20.00% = 2000");
+    expect(lines).toContain("  LCR 8909 < 10000 → RED");
+    expect(lines).toContain(`  ${MORPHO}.oracleDeviationBps`);
+  });
+});
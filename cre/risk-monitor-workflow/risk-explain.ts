@@ -0,0 +1,74 @@
+/**
+ * Risk Explanation
+ *
+ * Renders a RiskResult as plain text for incident write-ups: how each source
+ * score was built from its weighted components, and the threshold behind
+ * every decision the model took on the way to its action.
+ */
+
+import {
+  SCORE_COMPONENTS,
+  SEVERITY_LABELS,
+  STATUS_LABELS,
+  type RiskResult,
+} from "./risk-model";
+
+/** Whole numbers as-is, fractions to two places */
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? `${value}` : value.toFixed(2);
+
+const formatPercent = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+
+export function explainRisk(result: RiskResult): string {
+  const lines = [
+    `Status ${STATUS_LABELS[result.systemStatus]}, action ${result.action}`,
+    `Stressed LCR ${result.stressedLCR} bps (binding scenario "${result.bindingScenario}")`,
+    `Risk policy ${result.policyVersion} (${result.policyHash})`,
+  ];
+
+  for (const scenario of result.scenarioResults) {
+    lines.push(
+      `  Scenario "${scenario.name}": LCR ${scenario.stressedLCR} bps`
+    );
+  }
+
+  result.sourceScores.forEach((source, i) => {
+    const params = result.newParams[i];
+    lines.push(
+      "",
+      `${source.kind} ${source.address}: score ${source.score}/10000`
+    );
+    for (const name of SCORE_COMPONENTS) {
+      const { value, weightBps, contribution } = source.components[name];
+      lines.push(
+        `  ${name.padEnd(13)} ${formatNumber(value).padStart(8)} × ${formatPercent(weightBps).padStart(7)} = ${formatNumber(contribution)}`
+      );
+    }
+    if (source.trendPenalty > 0) {
+      lines.push(`  trend penalty +${source.trendPenalty}`);
+    }
+    lines.push(
+      `  → haircut ${params.liquidityHaircutBps} bps, cap ${params.maxConcentrationBps} bps, tier ${params.riskTier}`
+    );
+  });
+
+  lines.push("", "Decisions:");
+  for (const decision of result.decisions) {
+    lines.push(`  ${decision}`);
+  }
+
+  if (result.emergency) {
+    lines.push(
+      "",
+      `Emergency rung ${SEVERITY_LABELS[result.emergency.severity]}, RED for ${result.emergency.secondsInRed}s`
+    );
+  }
+  if (result.degraded) {
+    lines.push("", "Unknown metrics, scored at maximum risk:");
+    for (const metric of result.unknownMetrics) {
+      lines.push(`  ${metric}`);
+    }
+  }
+
+  return lines.join("\n");
+}
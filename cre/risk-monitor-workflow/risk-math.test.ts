@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  computeSourceHQLA,
+  computeSourceStressedOutflow,
+  isConcentrationBreached,
+  validateParams,
+} from "./risk-math";
+
+// Golden vectors shared with the Forge suite (test/RiskModelVectors.t.sol)
+const vectors = await Bun.file(
+  join(import.meta.dir, "../../test/vectors/risk-model.json")
+).json();
+
+// A vector either expects a value or expects the Solidity call to revert
+const check = (
+  run: () => unknown,
+  vector: { expected?: unknown; reverts?: boolean }
+) => {
+  if (vector.reverts) {
+    expect(run).toThrow("Panic(0x11)");
+  } else {
+    expect(run()).toEqual(
+      typeof vector.expected === "string"
+        ? BigInt(vector.expected)
+        : vector.expected
+    );
+  }
+};
+
+describe("RiskModel.sol conformance", () => {
+  for (const v of vectors.computeSourceHQLA) {
+    test(`computeSourceHQLA: ${v.name}`, () => {
+      check(() => computeSourceHQLA(BigInt(v.balance), v.haircutBps), v);
+    });
+  }
+
+  for (const v of vectors.computeSourceStressedOutflow) {
+    test(`computeSourceStressedOutflow: ${v.name}`, () => {
+      check(
+        () =>
+          computeSourceStressedOutflow(BigInt(v.balance), v.stressOutflowBps),
+        v
+      );
+    });
+  }
+
+  for (const v of vectors.isConcentrationBreached) {
+    test(`isConcentrationBreached: ${v.name}`, () => {
+      check(
+        () =>
+          isConcentrationBreached(
+            BigInt(v.sourceBalance),
+            BigInt(v.totalAssets),
+            v.maxConcentrationBps
+          ),
+        v
+      );
+    });
+  }
+
+  for (const v of vectors.validateParams) {
+    test(`validateParams: ${v.name}`, () => {
+      check(() => validateParams(v), v);
+    });
+  }
+});
+
+describe("input domain", () => {
+  test("rejects values Solidity could not be called with", () => {
+    expect(() => computeSourceHQLA(-1n, 0)).toThrow("is not a uint256");
+    expect(() => computeSourceHQLA(2n ** 256n, 0)).toThrow("is not a uint256");
+    expect(() => computeSourceStressedOutflow(1n, 65536)).toThrow(
+      "stressOutflowBps: 65536 is outside [0, 65535]"
+    );
+    expect(() =>
+      validateParams({
+        liquidityHaircutBps: 0,
+        stressOutflowBps: 0,
+        maxConcentrationBps: 0,
+        riskTier: 256,
+      })
+    ).toThrow("riskTier: 256 is outside [0, 255]");
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * RiskModel.sol in TypeScript
+ *
+ * Ports of the pure functions in src/libraries/RiskModel.sol, with the same
+ * uint256 semantics: integer division rounds down, and a product that
+ * overflows uint256 throws where Solidity 0.8 would revert with
+ * Panic(0x11). The model computes HQLA and outflows through these so it
+ * cannot drift from what the vault enforces. risk-math.test.ts checks them
+ * against the golden vectors in test/vectors/risk-model.json, which the
+ * Forge suite runs against the library too.
+ *
+ * Pure functions, no CRE SDK dependencies — safe to run on every DON node.
+ */
+
+// RiskModel.sol constants
+export const BPS = 10000;
+export const MAX_HAIRCUT_BPS = 9500;
+export const TIER_RED = 3;
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+const MAX_UINT16 = 65535;
+const MAX_UINT8 = 255;
+
+/** The fields RiskModel.validateParams() checks */
+export interface RiskParamBounds {
+  liquidityHaircutBps: number;
+  stressOutflowBps: number;
+  maxConcentrationBps: number;
+  riskTier: number;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// uint Arithmetic
+// ═══════════════════════════════════════════════════════════════════════════
+
+function assertUint256(name: string, value: bigint): void {
+  if (value < 0n || value > MAX_UINT256) {
+    throw new Error(`${name}: ${value} is not a uint256`);
+  }
+}
+
+function assertUintN(name: string, value: number, max: number): void {
+  if (!Number.isInteger(value) || value < 0 || value > max) {
+    throw new Error(`${name}: ${value} is outside [0, ${max}]`);
+  }
+}
+
+/** a × b, throwing where checked uint256 multiplication would revert */
+function mul(a: bigint, b: bigint): bigint {
+  const product = a * b;
+  if (product > MAX_UINT256) {
+    throw new Error(`Panic(0x11): ${a} * ${b} overflows uint256`);
+  }
+  return product;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RiskModel Functions
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** RiskModel.computeSourceHQLA(): the haircut-adjusted balance */
+export function computeSourceHQLA(balance: bigint, haircutBps: number): bigint {
+  assertUint256("balance", balance);
+  assertUintN("haircutBps", haircutBps, MAX_UINT16);
+  if (haircutBps >= BPS) return 0n;
+  return mul(balance, BigInt(BPS - haircutBps)) / BigInt(BPS);
+}
+
+/** RiskModel.computeSourceStressedOutflow(); rates above BPS are not clamped */
+export function computeSourceStressedOutflow(
+  balance: bigint,
+  stressOutflowBps: number
+): bigint {
+  assertUint256("balance", balance);
+  assertUintN("stressOutflowBps", stressOutflowBps, MAX_UINT16);
+  return mul(balance, BigInt(stressOutflowBps)) / BigInt(BPS);
+}
+
+/** RiskModel.isConcentrationBreached(): any balance breaches an empty vault */
+export function isConcentrationBreached(
+  sourceBalance: bigint,
+  totalAssets: bigint,
+  maxConcentrationBps: number
+): boolean {
+  assertUint256("sourceBalance", sourceBalance);
+  assertUint256("totalAssets", totalAssets);
+  assertUintN("maxConcentrationBps", maxConcentrationBps, MAX_UINT16);
+  if (totalAssets === 0n) return sourceBalance > 0n;
+  const concentrationBps = mul(sourceBalance, BigInt(BPS)) / totalAssets;
+  return concentrationBps > BigInt(maxConcentrationBps);
+}
+
+/** RiskModel.validateParams(): false if the vault would reject the params */
+export function validateParams(params: RiskParamBounds): boolean {
+  assertUintN("liquidityHaircutBps", params.liquidityHaircutBps, MAX_UINT16);
+  assertUintN("stressOutflowBps", params.stressOutflowBps, MAX_UINT16);
+  assertUintN("maxConcentrationBps", params.maxConcentrationBps, MAX_UINT16);
+  assertUintN("riskTier", params.riskTier, MAX_UINT8);
+  if (params.liquidityHaircutBps > MAX_HAIRCUT_BPS) return false;
+  if (params.stressOutflowBps > BPS) return false;
+  if (params.maxConcentrationBps > BPS) return false;
+  if (params.riskTier > TIER_RED) return false;
+  return true;
+}
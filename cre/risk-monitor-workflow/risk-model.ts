@@ -5,41 +5,226 @@
  * No CRE SDK dependencies — this runs identically on every DON node (deterministic).
  *
  * Three-layer model:
- * 1. Per-source risk scores (0-10000)
- * 2. Stress simulation — compute stressed LCR
- * 3. Action decision engine
+ * 1. Per-source risk scores (0-10000), point-in-time plus a trend penalty
+ * 2. Stress simulation — stressed LCR under every configured scenario
+ * 3. Action decision engine (driven by the worst scenario)
+ *
+ * Every weight and threshold comes from a RiskPolicy (risk-policy.ts).
  */
 
 import { encodeAbiParameters, parseAbiParameters } from "viem";
+import {
+  applyLadder,
+  DEFAULT_RISK_POLICY,
+  hashRiskPolicy,
+  type RiskPolicy,
+  type ScoreLadder,
+} from "./risk-policy";
+import { solveRebalance, type RebalancePlan } from "./rebalance-solver";
+import {
+  computeSourceHQLA,
+  computeSourceStressedOutflow,
+  TIER_RED,
+  validateParams,
+} from "./risk-math";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Type Definitions
 // ═══════════════════════════════════════════════════════════════════════════
 
+/** Yield source adapter types the workflow knows how to read */
+export type SourceKind = "aave-v3" | "morpho-blue" | "mock" | "unknown";
+
+/**
+ * A null metric is unknown — its read failed. The model scores an unknown
+ * metric at maximum risk and marks the result degraded.
+ */
+export interface SourceHealth {
+  address: string;
+  kind: SourceKind;
+  utilizationBps: number | null; // 0-10000
+  availableLiquidity: bigint | null;
+  oracleDeviationBps: number | null; // absolute deviation in bps
+  // Set for lending markets whose adapter reports it (Morpho Blue)
+  market?: MarketState | null;
+  // The same reading `credit.lookbackBlocks` earlier; undefined = unreadable
+  marketBefore?: MarketState;
+  // Set for sources whose adapter reports its reserve (Aave V3)
+  reserve?: ReserveState | null;
+  // The same reading `credit.lookbackBlocks` earlier; undefined = unreadable
+  reserveBefore?: ReserveState;
+}
+
+/** Mirrors MorphoBlueYieldSource.getMarketState() */
+export interface MarketState {
+  totalSupplyAssets: bigint;
+  totalSupplyShares: bigint;
+  totalBorrowAssets: bigint;
+  totalBorrowShares: bigint;
+  borrowRate: bigint; // per second, 1e18-scaled
+  lltv: bigint; // 1e18-scaled
+  collateralPrice: bigint; // 1e36-scaled, 0 = no oracle
+}
+
+/** Mirrors AaveV3YieldSource.getReserveState() */
+export interface ReserveState {
+  active: boolean;
+  frozen: boolean;
+  paused: boolean;
+  supplyCap: bigint; // underlying units, 0 = uncapped
+  totalSupplied: bigint; // what the supply cap is checked against
+  liquidityIndex: bigint; // ray, accrued to the read block
+}
+
 export interface ProtocolHealth {
-  aaveUtilizationBps: number; // 0-10000
-  aaveAvailableLiquidity: bigint;
-  aaveOracleDeviation: number; // absolute deviation in bps
-  morphoUtilizationBps: number; // 0-10000
-  morphoAvailableLiquidity: bigint;
-  morphoMatchingRateBps: number; // 0-10000
+  sources: SourceHealth[]; // one entry per vault source, same order as VaultState.sources
+}
+
+export interface SourcePosition {
+  address: string;
+  kind: SourceKind;
+  balance: bigint; // vault's balance in this source
+  currentParams?: Omit<SourceRiskParams, "address">; // last params written on-chain
+}
+
+/** Mirrors RiskModel.RiskSnapshot as last written on-chain */
+export interface RiskSnapshot {
+  stressedLCR: number;
+  aggregateRiskScore: number;
+  timestamp: number; // 0 = never written
+  systemStatus: number;
 }
 
 export interface VaultState {
   totalAssets: bigint;
-  aaveBalance: bigint;
-  morphoBalance: bigint;
   idleBalance: bigint;
-  pendingWithdrawals: bigint;
+  pendingWithdrawals: bigint; // assets the open epoch's requests settle for, not shares
+  currentEpochId: number;
   currentEpochStart: number;
   epochMinDuration: number;
-  aaveSourceAddress: string;
-  morphoSourceAddress: string;
+  sources: SourcePosition[]; // discovered via StreamVault.getYieldSources()
+  lastSnapshot?: RiskSnapshot;
+  emergency?: EmergencyState;
+  observations?: Observation[]; // oldest first; undefined = unreadable
 }
 
-export interface RiskResult {
-  sourceScores: { aave: number; morpho: number };
+/**
+ * Point-in-time readings stored with each param update, so later ticks can
+ * score how fast they move. Mirrors StreamVault.getRiskObservations().
+ */
+export interface Observation {
+  timestamp: number;
+  totalAssets: bigint;
+  // Sources whose metrics were known at the time
+  sources: {
+    address: string;
+    utilizationBps: number;
+    availableLiquidity: bigint;
+  }[];
+}
+
+/** Mirrors StreamVault.getEmergencyState() */
+export interface EmergencyState {
+  severity: number; // rung in force, meaningful only while redSince != 0
+  redSince: number; // unix seconds the RED streak began, 0 = not in RED
+}
+
+export interface SourceScore {
+  address: string;
+  kind: SourceKind;
+  score: number; // 0-10000
+  components: Record<ScoreComponentName, ScoreComponent>;
+  trendPenalty: number; // added on top of the weighted components
+}
+
+export type ScoreComponentName =
+  "utilization" | "liquidity" | "oracle" | "concentration" | "credit";
+
+/** One weighted input of a source score */
+export interface ScoreComponent {
+  value: number; // risk before weighting, 0-10000
+  weightBps: number; // the policy weight, scaled up when credit is not scored
+  contribution: number; // value × weight / 10000, before the score rounds down
+}
+
+/** Rates of change against the observation window (bps per hour) */
+export interface SourceTrend {
+  address: string;
+  utilizationRiseBpsPerHour: number;
+  liquidityDrainBpsPerHour: number;
+  penalty: number; // added to the point-in-time score
+}
+
+/** Credit readings of a lending market that reports its state */
+export interface SourceCredit {
+  address: string;
+  risk: number; // the credit component, 0-10000; 10000 when the state is unknown
+  lltvBufferBps?: number; // 10000 - LLTV: the price drop that takes a position at LLTV underwater
+  // Set when the lookback reading is known too
+  badDebt?: bigint; // supply written off over the lookback, net of interest accrued
+  badDebtBps?: number; // of the supply's value at the start of the lookback
+  collateralDropBps?: number; // fall in the market oracle's collateral price
+}
+
+/** Reserve readings of a source that reports its reserve state */
+export interface SourceReserve {
+  address: string;
+  // Each flag forces the score to 10000 and the tier to RED; none is raised
+  // when the state is unknown
+  flags: ("inactive" | "frozen" | "paused" | "supply cap")[];
+  supplyCapHeadroomBps?: number; // unset when uncapped or unknown
+  // The liquidity index did not grow over the lookback: the reserve stopped
+  // paying its suppliers
+  yieldStalled: boolean;
+}
+
+/** What the vault could pull out of a pool within the policy's exit window */
+export interface SourceExposure {
+  address: string;
+  exitCapacity: bigint; // available liquidity + borrows repaid in the window
+  capBps: number; // the maxConcentrationBps it supports
+}
+
+/** Mirrors RiskModel.SourceRiskParams (lastUpdated is set by the contract) */
+export interface SourceRiskParams {
+  address: string;
+  liquidityHaircutBps: number;
+  stressOutflowBps: number;
+  maxConcentrationBps: number;
+  riskTier: number; // 0=GREEN, 1=YELLOW, 2=ORANGE, 3=RED
+}
+
+/**
+ * A named stress scenario. Overrides and shocks are keyed by source address
+ * or by source kind (e.g. "aave-v3"); an address key wins over a kind key.
+ */
+export interface StressScenario {
+  name: string; // e.g. "bank-run 50%"
+  outflowRateBps: number; // redemption shock as a share of TVL
+  haircutOverrides?: Record<string, number>; // replaces the score-derived haircut
+  liquidityShocks?: Record<string, number>; // share of available liquidity removed before scoring
+}
+
+/** The RED rung chosen for this tick and why */
+export interface EmergencyResponse {
+  severity: number; // 0=HALT_DEPOSITS … 3=FULL_UNWIND
+  redSince: number; // start of the RED streak, carried in the report
+  secondsInRed: number;
+  trigger: string; // human-readable reason for the rung
+  unwindSource?: string; // set for PARTIAL_UNWIND only
+  unwindAmount: bigint;
+}
+
+export interface ScenarioResult {
+  name: string;
   stressedLCR: number; // basis points
+}
+
+export interface RiskResult {
+  sourceScores: SourceScore[];
+  stressedLCR: number; // basis points, worst case across scenarios
+  scenarioResults: ScenarioResult[]; // same order as the scenarios passed in
+  bindingScenario: string; // scenario that produced stressedLCR
   systemStatus: number; // 0=GREEN, 1=YELLOW, 2=ORANGE, 3=RED
   action:
     | "NONE"
@@ -48,18 +233,78 @@ export interface RiskResult {
     | "EMERGENCY_PAUSE"
     | "SETTLE_EPOCH";
   encodedPayload: string; // ABI-encoded payload for onReport()
-  newParams: {
-    aaveHaircutBps: number;
-    aaveConcentrationBps: number;
-    morphoHaircutBps: number;
-    morphoConcentrationBps: number;
-  };
+  newParams: SourceRiskParams[]; // same order as sourceScores
+  rebalancePlan?: RebalancePlan; // set whenever REBALANCE was called for
+  exposures: SourceExposure[]; // same order as sourceScores
+  idleFloor: bigint; // idle the caps leave uncovered, 0 when they sum to 100%+
+  emergency?: EmergencyResponse; // set whenever the status is RED
+  trends: SourceTrend[]; // same order as sourceScores
+  credits: SourceCredit[]; // lending markets only, in sourceScores order
+  reserves: SourceReserve[]; // sources reporting a reserve, in sourceScores order
+  tvlOutflowBpsPerHour: number;
+  observation: Observation; // this tick's readings, stored by UPDATE_PARAMS
+  policyVersion: string;
+  policyHash: `0x${string}`; // hashRiskPolicy() of the policy used
+  unknownMetrics: string[]; // "<source>.<metric>" for every null health metric
+  degraded: boolean; // true when unknownMetrics is non-empty
+  decisions: string[]; // threshold each decision crossed, in the order taken
 }
 
 // Action type constants (must match Solidity)
-const ACTION_UPDATE_RISK_PARAMS = 0;
-const ACTION_DEFENSIVE_REBALANCE = 1;
-const ACTION_EMERGENCY_PAUSE = 2;
+export const ACTION_UPDATE_RISK_PARAMS = 0;
+export const ACTION_DEFENSIVE_REBALANCE = 1;
+export const ACTION_EMERGENCY_PAUSE = 2;
+export const ACTION_SETTLE_EPOCH = 3;
+
+// Emergency severities, mildest first (must match Solidity)
+export const SEVERITY_HALT_DEPOSITS = 0;
+export const SEVERITY_HALT_DEPLOYMENTS = 1;
+export const SEVERITY_PARTIAL_UNWIND = 2;
+export const SEVERITY_FULL_UNWIND = 3;
+
+// Report ABI layouts (must match Solidity's abi.decode in onReport())
+export const REPORT_ENVELOPE_ABI = "uint8 action, bytes data";
+// bindingScenario, policyHash and degraded trail the original fields so
+// receivers decoding only the leading fields are unaffected
+export const UPDATE_PARAMS_ABI =
+  "address[] sources, (uint16 liquidityHaircutBps, uint16 stressOutflowBps, uint16 maxConcentrationBps, uint64 lastUpdated, uint8 riskTier)[] params, (uint256 stressedLCR, uint256 aggregateRiskScore, uint64 timestamp, uint8 systemStatus) snapshot, string bindingScenario, bytes32 policyHash, bool degraded, (uint64 timestamp, uint256 totalAssets, (address source, uint16 utilizationBps, uint256 availableLiquidity)[] sources) observation";
+// Rebalance and settle reports carry the snapshot they were decided on, so the
+// vault's recorded status follows every action, not only param updates
+export const DEFENSIVE_REBALANCE_ABI =
+  "(address source, uint256 amount)[] legs, bytes32 policyHash, bool degraded, (uint256 stressedLCR, uint256 aggregateRiskScore, uint64 timestamp, uint8 systemStatus) snapshot";
+export const EMERGENCY_PAUSE_ABI =
+  "uint8 severity, bytes32 policyHash, bool degraded, uint64 redSince, address unwindSource, uint256 unwindAmount";
+export const SETTLE_EPOCH_ABI =
+  "uint256 epochId, bytes32 policyHash, bool degraded, (uint256 stressedLCR, uint256 aggregateRiskScore, uint64 timestamp, uint8 systemStatus) snapshot";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Morpho Blue's virtual amounts (SharesMathLib)
+const VIRTUAL_SHARES = 1_000_000n;
+const VIRTUAL_ASSETS = 1n;
+const WAD = 10n ** 18n;
+
+export const SCORE_COMPONENTS: ScoreComponentName[] = [
+  "utilization",
+  "liquidity",
+  "oracle",
+  "concentration",
+  "credit",
+];
+
+/** Display names, indexed by systemStatus and emergency severity */
+export const STATUS_LABELS = ["GREEN", "YELLOW", "ORANGE", "RED"];
+export const SEVERITY_LABELS = [
+  "HALT_DEPOSITS",
+  "HALT_DEPLOYMENTS",
+  "PARTIAL_UNWIND",
+  "FULL_UNWIND",
+];
+
+// Used when config declares no scenarios — the original single 30% run
+export const DEFAULT_STRESS_SCENARIOS: StressScenario[] = [
+  { name: "baseline 30%", outflowRateBps: 3000 },
+];
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Main Risk Model Function
@@ -69,125 +314,407 @@ const ACTION_EMERGENCY_PAUSE = 2;
  * @param health Protocol health metrics from on-chain reads
  * @param vault Vault state from on-chain reads
  * @param nowUnixSeconds Current timestamp from runtime.now() for determinism across DON nodes
+ * @param scenarios Stress scenarios to evaluate; the lowest LCR decides the action
+ * @param policy Weights, thresholds and ladders the model applies
  */
 export function computeRiskModel(
   health: ProtocolHealth,
   vault: VaultState,
-  nowUnixSeconds?: number
+  nowUnixSeconds?: number,
+  scenarios: StressScenario[] = DEFAULT_STRESS_SCENARIOS,
+  policy: RiskPolicy = DEFAULT_RISK_POLICY
 ): RiskResult {
+  if (scenarios.length === 0) {
+    throw new Error("At least one stress scenario is required");
+  }
+
   // ═══════════════════════════════════════════════════════════════════════
   // LAYER 1: Per-Source Risk Scores (0-10000)
   // ═══════════════════════════════════════════════════════════════════════
 
-  const aaveScore = computeSourceRiskScore(
-    health.aaveUtilizationBps,
-    health.aaveAvailableLiquidity,
-    vault.aaveBalance,
-    health.aaveOracleDeviation,
-    vault.totalAssets
+  const sourceHealths = vault.sources.map((position) =>
+    findSourceHealth(health, position.address)
   );
 
-  const morphoScore = computeSourceRiskScore(
-    health.morphoUtilizationBps,
-    health.morphoAvailableLiquidity,
-    vault.morphoBalance,
-    0, // Morpho doesn't have separate oracle deviation concern
-    vault.totalAssets
+  // Deterministic timestamp for trends and the report snapshot
+  const timestampSec = nowUnixSeconds ?? Math.floor(Date.now() / 1000);
+
+  // How fast each source is moving, from the observations on the vault
+  const { trends, tvlOutflowBpsPerHour } = computeTrends(
+    vault,
+    sourceHealths,
+    timestampSec,
+    policy.trend
   );
 
+  // Bad debt and collateral price moves of each lending market
+  const credits = sourceHealths.flatMap((h) =>
+    h.market === undefined ? [] : [computeCredit(h, policy.credit)]
+  );
+  // null for sources that report no market state: they score no credit
+  const creditRisks = sourceHealths.map(
+    (h) => credits.find((c) => c.address === h.address)?.risk ?? null
+  );
+
+  // Reserve flags that pin a source to RED whatever its score would be
+  const reserves = sourceHealths.flatMap((h) =>
+    h.reserve === undefined ? [] : [computeReserve(h, policy.reserve)]
+  );
+  const reserveFlags = sourceHealths.map(
+    (h) => reserves.find((r) => r.address === h.address)?.flags ?? []
+  );
+
+  const sourceScores: SourceScore[] = vault.sources.map((position, i) => {
+    const sourceHealth = sourceHealths[i];
+    const risks = computeScoreComponents(
+      sourceHealth.utilizationBps,
+      sourceHealth.availableLiquidity,
+      position.balance,
+      sourceHealth.oracleDeviationBps,
+      vault.totalAssets,
+      creditRisks[i] ?? 0,
+      policy
+    );
+    const weights = componentWeights(policy, creditRisks[i] !== null);
+    const pointScore = weighScoreComponents(risks, weights);
+    const components = {} as SourceScore["components"];
+    for (const name of SCORE_COMPONENTS) {
+      components[name] = {
+        value: risks[name],
+        weightBps: weights[name],
+        contribution: (risks[name] * weights[name]) / 10000,
+      };
+    }
+    return {
+      address: position.address,
+      kind: position.kind,
+      score:
+        reserveFlags[i].length > 0
+          ? 10000
+          : Math.min(pointScore + trends[i].penalty, 10000),
+      components,
+      trendPenalty: trends[i].penalty,
+    };
+  });
+
   // ═══════════════════════════════════════════════════════════════════════
   // LAYER 2: Stress Simulation — Compute Stressed LCR
   // ═══════════════════════════════════════════════════════════════════════
 
   // Map risk scores to haircuts (higher risk = higher haircut)
-  const aaveHaircut = riskScoreToHaircut(aaveScore);
-  const morphoHaircut = riskScoreToHaircut(morphoScore);
-
-  // HQLA = Σ(balance * (10000 - haircut) / 10000) + idle
-  const aaveHQLA =
-    (vault.aaveBalance * BigInt(10000 - aaveHaircut)) / 10000n;
-  const morphoHQLA =
-    (vault.morphoBalance * BigInt(10000 - morphoHaircut)) / 10000n;
-  const totalHQLA = aaveHQLA + morphoHQLA + vault.idleBalance;
-
-  // Stressed outflows: pending withdrawals + stress multiplier on TVL
-  const stressOutflowRate = 3000; // Assume 30% redemption stress scenario
-  const stressedOutflows =
-    vault.pendingWithdrawals +
-    (vault.totalAssets * BigInt(stressOutflowRate)) / 10000n;
-
-  // LCR = HQLA / Outflows (in basis points, 10000 = 100%)
-  const stressedLCR =
-    stressedOutflows > 0n
-      ? Number((totalHQLA * 10000n) / stressedOutflows)
-      : 99999; // No outflows = infinite LCR
+  const haircuts = sourceScores.map((s) =>
+    applyLadder(policy.haircut, s.score)
+  );
+
+  const evaluated = scenarios.map((scenario) => {
+    // HQLA = Σ(balance * (10000 - haircut) / 10000) + idle
+    let hqla = vault.idleBalance;
+    const scenarioHaircuts = vault.sources.map((position, i) => {
+      // A liquidity shock re-scores the source against the drained pool
+      const shockBps = scenarioValue(scenario.liquidityShocks, position);
+      const score =
+        shockBps === undefined || reserveFlags[i].length > 0
+          ? sourceScores[i].score
+          : Math.min(
+              computeSourceRiskScore(
+                sourceHealths[i].utilizationBps,
+                applyLiquidityShock(
+                  sourceHealths[i].availableLiquidity,
+                  shockBps
+                ),
+                position.balance,
+                sourceHealths[i].oracleDeviationBps,
+                vault.totalAssets,
+                creditRisks[i],
+                policy
+              ) + trends[i].penalty,
+              10000
+            );
+      const haircut =
+        scenarioValue(scenario.haircutOverrides, position) ??
+        applyLadder(policy.haircut, score);
+      hqla += computeSourceHQLA(position.balance, haircut);
+      return haircut;
+    });
+
+    // Stressed outflows: pending withdrawals + scenario redemption shock on TVL
+    const outflows =
+      vault.pendingWithdrawals +
+      computeSourceStressedOutflow(vault.totalAssets, scenario.outflowRateBps);
+
+    // LCR = HQLA / Outflows (in basis points, 10000 = 100%)
+    const stressedLCR =
+      outflows > 0n
+        ? Number((hqla * 10000n) / outflows)
+        : 99999; // No outflows = infinite LCR
+
+    return {
+      name: scenario.name,
+      stressedLCR,
+      hqla,
+      outflows,
+      haircuts: scenarioHaircuts,
+    };
+  });
+
+  // The worst scenario binds (first declared wins ties)
+  const binding = evaluated.reduce((worst, e) =>
+    e.stressedLCR < worst.stressedLCR ? e : worst
+  );
+  const stressedLCR = binding.stressedLCR;
+  const totalHQLA = binding.hqla;
 
   // ═══════════════════════════════════════════════════════════════════════
   // LAYER 3: Action Decision Engine
   // ═══════════════════════════════════════════════════════════════════════
 
-  let systemStatus: number;
-  let action: RiskResult["action"];
+  const previousStatus = recordedStatus(vault);
+  const { status: systemStatus, rule: statusRule } = resolveSystemStatus(
+    stressedLCR,
+    policy.statusBands,
+    previousStatus
+  );
+  const decisions = [`${statusRule} → ${STATUS_LABELS[systemStatus]}`];
 
-  if (stressedLCR >= 15000) {
-    // > 150% — healthy
-    systemStatus = 0; // GREEN
+  let action: RiskResult["action"];
+  if (systemStatus === 0) {
+    // GREEN — healthy
     action = "UPDATE_PARAMS"; // Still update params to reflect current state
-  } else if (stressedLCR >= 12000) {
-    // 120-150% — cautious
-    systemStatus = 1; // YELLOW
+  } else if (systemStatus === 1) {
+    // YELLOW — cautious
     action = "UPDATE_PARAMS"; // Tighten params
-  } else if (stressedLCR >= 10000) {
-    // 100-120% — defensive
-    systemStatus = 2; // ORANGE
-    action = "REBALANCE"; // Pull capital from riskiest source
+  } else if (systemStatus === 2) {
+    // ORANGE — defensive
+    action = "REBALANCE"; // Pull capital into idle, sized by the solver
   } else {
-    // < 100% — critical
-    systemStatus = 3; // RED
+    // RED — critical, graded by the emergency ladder
     action = "EMERGENCY_PAUSE";
   }
 
-  // Derive concentration limits from risk scores
-  const aaveConcentration =
-    aaveScore > 7000 ? 2000 : aaveScore > 4000 ? 4000 : 6000;
-  const morphoConcentration =
-    morphoScore > 7000 ? 2000 : morphoScore > 4000 ? 4000 : 6000;
+  // Settle the epoch instead of a routine param update once it has run its
+  // minimum duration and binding-scenario HQLA (idle included) covers every
+  // pending withdrawal.
+  // Stressed states keep their defensive action.
+  const epochMatured =
+    timestampSec >= vault.currentEpochStart + vault.epochMinDuration;
+  if (
+    action === "UPDATE_PARAMS" &&
+    epochMatured &&
+    vault.pendingWithdrawals > 0n &&
+    totalHQLA >= vault.pendingWithdrawals
+  ) {
+    action = "SETTLE_EPOCH";
+    decisions.push(
+      `epoch ${vault.currentEpochId} matured, HQLA ${totalHQLA} ≥ pending ${vault.pendingWithdrawals} → SETTLE_EPOCH`
+    );
+  }
 
-  // Deterministic timestamp for the report snapshot
-  const timestampSec = nowUnixSeconds ?? Math.floor(Date.now() / 1000);
+  // Concentration caps follow what each pool could pay out in the window
+  const exposures = sourceHealths.map((h) =>
+    computeExposure(h, vault.totalAssets, policy.exposure)
+  );
+
+  // Derive per-source parameters from risk scores and exit capacity
+  const newParams: SourceRiskParams[] = sourceScores.map((s, i) => ({
+    address: s.address,
+    liquidityHaircutBps: haircuts[i],
+    stressOutflowBps: applyLadder(policy.stressOutflow, s.score),
+    maxConcentrationBps: exposures[i].capBps,
+    riskTier:
+      reserveFlags[i].length > 0 ? TIER_RED : applyLadder(policy.tier, s.score),
+  }));
+  sourceScores.forEach((s, i) => {
+    if (reserveFlags[i].length > 0) {
+      decisions.push(
+        `${s.kind} ${s.address}: reserve ${reserveFlags[i].join(", ")} → score 10000, tier ${TIER_RED}`
+      );
+    }
+    decisions.push(
+      `${s.kind} ${s.address}: ${ladderRule(policy.haircut, s.score)} → haircut ${haircuts[i]} bps, tier ${newParams[i].riskTier}`,
+      `${s.kind} ${s.address}: exit capacity ${exposures[i].exitCapacity} → cap ${exposures[i].capBps} bps`
+    );
+  });
+
+  // Caps summing below 100% leave the rest of TVL to idle. Short of that,
+  // a routine update becomes a rebalance trimming sources to their caps.
+  const capsTotalBps = exposures.reduce((sum, e) => sum + e.capBps, 0);
+  const idleFloor =
+    capsTotalBps < 10000
+      ? (vault.totalAssets * BigInt(10000 - capsTotalBps)) / 10000n
+      : 0n;
+  if (action === "UPDATE_PARAMS" && vault.idleBalance < idleFloor) {
+    action = "REBALANCE";
+    decisions.push(
+      `idle ${vault.idleBalance} < idle floor ${idleFloor} → REBALANCE`
+    );
+  }
+
+  // Size the withdrawals that lift every scenario out of ORANGE, trimming
+  // sources over their caps on the way. Leaving ORANGE takes its exit
+  // threshold once the vault is already in it.
+  let rebalancePlan: RebalancePlan | undefined;
+  if (action === "REBALANCE") {
+    const orange = policy.statusBands.find((b) => b.status === 2)!;
+    rebalancePlan = solveRebalance({
+      sources: vault.sources.map((position, i) => ({
+        address: position.address,
+        balance: position.balance,
+        availableLiquidity: sourceHealths[i].availableLiquidity,
+        maxConcentrationBps: newParams[i].maxConcentrationBps,
+      })),
+      idleBalance: vault.idleBalance,
+      totalAssets: vault.totalAssets,
+      scenarios: evaluated,
+      targetLCR:
+        previousStatus !== undefined && previousStatus >= 2
+          ? orange.exitAtOrAbove
+          : orange.enterBelow,
+    });
+    decisions.push(
+      `target LCR ${rebalancePlan.targetLCR} bps → ${rebalancePlan.legs.length} leg(s), projected ${rebalancePlan.projectedLCR} bps`
+    );
+    // Nothing can be withdrawn — record the status instead
+    if (rebalancePlan.legs.length === 0) {
+      action = "UPDATE_PARAMS";
+      decisions.push("no source can pay out → UPDATE_PARAMS");
+    }
+  }
+
+  let emergency: EmergencyResponse | undefined;
+  if (action === "EMERGENCY_PAUSE") {
+    emergency = resolveEmergencyResponse(
+      stressedLCR,
+      timestampSec,
+      vault,
+      sourceHealths,
+      sourceScores,
+      policy.emergencyLadder
+    );
+    decisions.push(
+      `${emergency.trigger} → ${SEVERITY_LABELS[emergency.severity]}`
+    );
+    // The vault already runs this rung for the current RED streak
+    if (
+      vault.emergency?.redSince &&
+      vault.emergency.severity === emergency.severity
+    ) {
+      action = "NONE";
+      decisions.push(
+        `vault already runs ${SEVERITY_LABELS[emergency.severity]} → NONE`
+      );
+    }
+  }
+
+  // This tick's readings; sources with an unknown metric are left out
+  const observation: Observation = {
+    timestamp: timestampSec,
+    totalAssets: vault.totalAssets,
+    sources: sourceHealths.flatMap((h) =>
+      h.utilizationBps !== null && h.availableLiquidity !== null
+        ? [
+            {
+              address: h.address,
+              utilizationBps: h.utilizationBps,
+              availableLiquidity: h.availableLiquidity,
+            },
+          ]
+        : []
+    ),
+  };
+  // A calm vault still samples every sampleEverySeconds so trends have data.
+  // An unreadable history forces nothing.
+  const latest = vault.observations?.at(-1);
+  const observationDue =
+    vault.observations !== undefined &&
+    (latest === undefined ||
+      timestampSec - latest.timestamp >= policy.trend.sampleEverySeconds);
+
+  // Skip the write when a routine update would leave on-chain state as it is
+  if (
+    action === "UPDATE_PARAMS" &&
+    previousStatus === systemStatus &&
+    paramsUnchanged(newParams, vault.sources) &&
+    !observationDue
+  ) {
+    action = "NONE";
+    decisions.push(
+      "status and params match the last report, no observation due → NONE"
+    );
+  }
+
+  const aggregateRiskScore =
+    sourceScores.length > 0
+      ? Math.floor(
+          sourceScores.reduce((sum, s) => sum + s.score, 0) /
+            sourceScores.length
+        )
+      : 0;
+
+  const policyHash = hashRiskPolicy(policy);
+
+  // Every metric the readers could not fetch; the scores above already
+  // treated each one as maximum risk, except an unknown reserve state, which
+  // raises no flag
+  const unknownMetrics = sourceHealths.flatMap((h) =>
+    (
+      [
+        "utilizationBps",
+        "availableLiquidity",
+        "oracleDeviationBps",
+        "market",
+        "reserve",
+      ] as const
+    )
+      .filter((metric) => h[metric] === null)
+      .map((metric) => `${h.address}.${metric}`)
+  );
+  const degraded = unknownMetrics.length > 0;
 
   // ABI-encode the payload for Solidity's onReport()
   const encodedPayload = encodeReportPayload(
     action,
     {
-      aaveHaircutBps: aaveHaircut,
-      aaveConcentrationBps: aaveConcentration,
-      aaveStressOutflowBps: riskScoreToStressOutflow(aaveScore),
-      aaveRiskTier: scoreToTier(aaveScore),
-      morphoHaircutBps: morphoHaircut,
-      morphoConcentrationBps: morphoConcentration,
-      morphoStressOutflowBps: riskScoreToStressOutflow(morphoScore),
-      morphoRiskTier: scoreToTier(morphoScore),
+      sources: newParams,
       stressedLCR,
+      bindingScenario: binding.name,
       systemStatus,
-      aggregateRiskScore: Math.floor((aaveScore + morphoScore) / 2),
+      aggregateRiskScore,
       timestampSec,
+      policyHash,
+      degraded,
+      rebalanceLegs: rebalancePlan?.legs ?? [],
+      emergency,
+      observation,
     },
     vault
   );
 
   return {
-    sourceScores: { aave: aaveScore, morpho: morphoScore },
+    sourceScores,
     stressedLCR,
+    scenarioResults: evaluated.map(({ name, stressedLCR }) => ({
+      name,
+      stressedLCR,
+    })),
+    bindingScenario: binding.name,
     systemStatus,
     action,
     encodedPayload,
-    newParams: {
-      aaveHaircutBps: aaveHaircut,
-      aaveConcentrationBps: aaveConcentration,
-      morphoHaircutBps: morphoHaircut,
-      morphoConcentrationBps: morphoConcentration,
-    },
+    newParams,
+    rebalancePlan,
+    exposures,
+    idleFloor,
+    emergency,
+    trends,
+    credits,
+    reserves,
+    tvlOutflowBpsPerHour,
+    observation,
+    policyVersion: policy.version,
+    policyHash,
+    unknownMetrics,
+    degraded,
+    decisions,
   };
 }
 
@@ -195,23 +722,451 @@ export function computeRiskModel(
 // Helper Functions
 // ═══════════════════════════════════════════════════════════════════════════
 
+function findSourceHealth(health: ProtocolHealth, address: string): SourceHealth {
+  const match = health.sources.find(
+    (h) => h.address.toLowerCase() === address.toLowerCase()
+  );
+  if (!match) {
+    throw new Error(`No health reading for yield source ${address}`);
+  }
+  return match;
+}
+
+/**
+ * The status the vault last recorded on-chain: RED while an emergency streak
+ * runs, since pause reports carry no snapshot, else its last snapshot's.
+ * Undefined when neither was ever written.
+ */
+export function recordedStatus(
+  vault: Pick<VaultState, "lastSnapshot" | "emergency">
+): number | undefined {
+  if (vault.emergency?.redSince) return 3;
+  return vault.lastSnapshot?.timestamp
+    ? vault.lastSnapshot.systemStatus
+    : undefined;
+}
+
+/**
+ * Maps stressed LCR to a status, applying the policy's enter/exit thresholds
+ * relative to the previously reported status. Worsening takes effect
+ * immediately; recovering requires clearing each band's exit threshold.
+ * `rule` names the threshold that settled it.
+ */
+function resolveSystemStatus(
+  stressedLCR: number,
+  bands: RiskPolicy["statusBands"],
+  previousStatus?: number
+): { status: number; rule: string } {
+  let status = 0;
+  let rule = `LCR ${stressedLCR} ≥ ${Math.max(...bands.map((b) => b.enterBelow))}`;
+  for (const band of bands) {
+    if (stressedLCR < band.enterBelow) {
+      status = band.status;
+      rule = `LCR ${stressedLCR} < ${band.enterBelow}`;
+    }
+  }
+
+  if (previousStatus === undefined || status >= previousStatus) {
+    return { status, rule };
+  }
+
+  // Step down one band at a time while LCR clears that band's exit threshold
+  let resolved = previousStatus;
+  while (resolved > status) {
+    const band = bands.find((b) => b.status === resolved)!;
+    if (stressedLCR < band.exitAtOrAbove) {
+      rule = `LCR ${stressedLCR} < ${STATUS_LABELS[resolved]} exit ${band.exitAtOrAbove}, held`;
+      break;
+    }
+    rule = `LCR ${stressedLCR} ≥ ${STATUS_LABELS[resolved]} exit ${band.exitAtOrAbove}`;
+    resolved--;
+  }
+  return { status: resolved, rule };
+}
+
+/** The ladder step a score landed on, e.g. "score 4725 < 6000" */
+function ladderRule(ladder: ScoreLadder, score: number): string {
+  const step = ladder.steps.find((s) => score < s.below);
+  return step
+    ? `score ${score} < ${step.below}`
+    : `score ${score} ≥ ${ladder.steps.at(-1)?.below ?? 0}`;
+}
+
+/**
+ * Picks the RED rung: the highest one whose time-in-RED or LCR trigger fires.
+ * The streak starts at the vault's redSince, or now on the first RED tick,
+ * and the rung never steps back down until the vault leaves RED.
+ */
+function resolveEmergencyResponse(
+  stressedLCR: number,
+  nowUnixSeconds: number,
+  vault: VaultState,
+  sourceHealths: SourceHealth[],
+  sourceScores: SourceScore[],
+  ladder: RiskPolicy["emergencyLadder"]
+): EmergencyResponse {
+  const current = vault.emergency?.redSince ? vault.emergency : undefined;
+  const redSince = current?.redSince ?? nowUnixSeconds;
+  const secondsInRed = Math.max(nowUnixSeconds - redSince, 0);
+
+  let severity = SEVERITY_HALT_DEPOSITS;
+  let trigger = "entered RED";
+  for (const rung of ladder) {
+    if (rung.redForSeconds > 0 && secondsInRed >= rung.redForSeconds) {
+      severity = rung.severity;
+      trigger = `RED for ${secondsInRed}s (rung waits ${rung.redForSeconds}s)`;
+    } else if (stressedLCR < rung.lcrBelow && rung.severity > 0) {
+      severity = rung.severity;
+      trigger = `LCR ${stressedLCR} bps below ${rung.lcrBelow} bps`;
+    }
+  }
+  if (current && current.severity > severity) {
+    severity = current.severity;
+    trigger = `holding severity ${severity} until RED clears`;
+  }
+
+  // Partial unwind exits the riskiest source that can pay anything out, up
+  // to its pool's available liquidity (unknown liquidity: the balance)
+  let unwindSource: string | undefined;
+  let unwindAmount = 0n;
+  if (severity === SEVERITY_PARTIAL_UNWIND) {
+    const payable = vault.sources.map((position, i) => {
+      const liquidity = sourceHealths[i].availableLiquidity;
+      return liquidity !== null && liquidity < position.balance
+        ? liquidity
+        : position.balance;
+    });
+    let worst = -1;
+    payable.forEach((amount, i) => {
+      if (amount <= 0n) return;
+      if (worst < 0 || sourceScores[i].score > sourceScores[worst].score) {
+        worst = i;
+      }
+    });
+    if (worst < 0) {
+      severity = SEVERITY_HALT_DEPLOYMENTS;
+      trigger += "; no source can pay out to unwind";
+    } else {
+      unwindSource = vault.sources[worst].address;
+      unwindAmount = payable[worst];
+    }
+  }
+
+  return {
+    severity,
+    redSince,
+    secondsInRed,
+    trigger,
+    unwindSource,
+    unwindAmount,
+  };
+}
+
+/**
+ * Fastest adverse move against any observation in the trend window: rising
+ * utilization, draining liquidity and shrinking TVL, each in bps per hour.
+ * Unknown metrics get no trend — they already score maximum risk.
+ */
+function computeTrends(
+  vault: VaultState,
+  sourceHealths: SourceHealth[],
+  nowUnixSeconds: number,
+  trend: RiskPolicy["trend"]
+): { trends: SourceTrend[]; tvlOutflowBpsPerHour: number } {
+  const window = (vault.observations ?? []).filter(
+    (o) =>
+      o.timestamp < nowUnixSeconds &&
+      nowUnixSeconds - o.timestamp <= trend.windowSeconds
+  );
+
+  // Relative decline from `then` to `now`, in bps per hour
+  const declinePerHour = (then: bigint, now: bigint, seconds: number) =>
+    then > now
+      ? Number(((then - now) * 10000n * 3600n) / (then * BigInt(seconds)))
+      : 0;
+
+  let tvlOutflowBpsPerHour = 0;
+  for (const o of window) {
+    const seconds = nowUnixSeconds - o.timestamp;
+    tvlOutflowBpsPerHour = Math.max(
+      tvlOutflowBpsPerHour,
+      declinePerHour(o.totalAssets, vault.totalAssets, seconds)
+    );
+  }
+
+  const trends = sourceHealths.map((h) => {
+    let utilizationRiseBpsPerHour = 0;
+    let liquidityDrainBpsPerHour = 0;
+    for (const o of window) {
+      const past = o.sources.find(
+        (s) => s.address.toLowerCase() === h.address.toLowerCase()
+      );
+      if (!past) continue;
+      const seconds = nowUnixSeconds - o.timestamp;
+      if (h.utilizationBps !== null && h.utilizationBps > past.utilizationBps) {
+        utilizationRiseBpsPerHour = Math.max(
+          utilizationRiseBpsPerHour,
+          Math.floor(
+            ((h.utilizationBps - past.utilizationBps) * 3600) / seconds
+          )
+        );
+      }
+      if (h.availableLiquidity !== null) {
+        liquidityDrainBpsPerHour = Math.max(
+          liquidityDrainBpsPerHour,
+          declinePerHour(past.availableLiquidity, h.availableLiquidity, seconds)
+        );
+      }
+    }
+
+    const penalty = Math.min(
+      Math.floor(
+        (utilizationRiseBpsPerHour * trend.utilizationRiseRisk +
+          liquidityDrainBpsPerHour * trend.liquidityDrainRisk +
+          tvlOutflowBpsPerHour * trend.tvlOutflowRisk) /
+          10000
+      ),
+      trend.maxPenalty
+    );
+    return {
+      address: h.address,
+      utilizationRiseBpsPerHour,
+      liquidityDrainBpsPerHour,
+      penalty,
+    };
+  });
+
+  return { trends, tvlOutflowBpsPerHour };
+}
+
+/**
+ * Credit risk of one lending market over policy.lookbackBlocks: the larger
+ * of the bad-debt risk and the collateral price drop as a share of the LLTV
+ * buffer. Unknown market state scores the maximum. Without the lookback
+ * reading there is nothing to compare against and the risk is 0.
+ */
+function computeCredit(
+  health: SourceHealth,
+  policy: RiskPolicy["credit"]
+): SourceCredit {
+  const { address, market, marketBefore } = health;
+  if (!market) return { address, risk: 10000 };
+
+  const lltvBufferBps =
+    market.lltv < WAD ? Number(((WAD - market.lltv) * 10000n) / WAD) : 0;
+  if (!marketBefore) return { address, risk: 0, lltvBufferBps };
+
+  // Bad debt is written off against totalSupplyAssets, so each supply share
+  // is worth less than it was; interest accrued since offsets part of it
+  const expectedAssets =
+    ((market.totalSupplyShares + VIRTUAL_SHARES) *
+      (marketBefore.totalSupplyAssets + VIRTUAL_ASSETS)) /
+    (marketBefore.totalSupplyShares + VIRTUAL_SHARES);
+  const heldAssets = market.totalSupplyAssets + VIRTUAL_ASSETS;
+  const badDebt =
+    expectedAssets > heldAssets ? expectedAssets - heldAssets : 0n;
+  const badDebtBps = Number((badDebt * 10000n) / expectedAssets);
+
+  const priceBefore = marketBefore.collateralPrice;
+  const collateralDropBps =
+    priceBefore > market.collateralPrice
+      ? Number(((priceBefore - market.collateralPrice) * 10000n) / priceBefore)
+      : 0;
+
+  const badDebtRisk = Math.min(badDebtBps * policy.badDebtRiskPerBps, 10000);
+  // A position sitting at LLTV goes underwater once the drop eats the buffer
+  let proximityRisk = collateralDropBps > 0 ? 10000 : 0;
+  if (lltvBufferBps > 0) {
+    proximityRisk = Math.min(
+      Math.floor((collateralDropBps * 10000) / lltvBufferBps),
+      10000
+    );
+  }
+
+  return {
+    address,
+    risk: Math.max(badDebtRisk, proximityRisk),
+    lltvBufferBps,
+    badDebt,
+    badDebtBps,
+    collateralDropBps,
+  };
+}
+
+/**
+ * Flags of one reserve that force its source to RED, and whether its
+ * liquidity index grew since the lookback reading. An unknown state raises
+ * nothing; without the lookback reading the yield is not judged.
+ */
+function computeReserve(
+  health: SourceHealth,
+  policy: RiskPolicy["reserve"]
+): SourceReserve {
+  const { address, reserve, reserveBefore } = health;
+  if (!reserve) return { address, flags: [], yieldStalled: false };
+
+  const flags: SourceReserve["flags"] = [];
+  if (!reserve.active) flags.push("inactive");
+  if (reserve.frozen) flags.push("frozen");
+  if (reserve.paused) flags.push("paused");
+
+  let supplyCapHeadroomBps: number | undefined;
+  if (reserve.supplyCap > 0n) {
+    const headroom =
+      reserve.supplyCap > reserve.totalSupplied
+        ? reserve.supplyCap - reserve.totalSupplied
+        : 0n;
+    supplyCapHeadroomBps = Number((headroom * 10000n) / reserve.supplyCap);
+    if (supplyCapHeadroomBps < policy.minSupplyCapHeadroomBps) {
+      flags.push("supply cap");
+    }
+  }
+
+  return {
+    address,
+    flags,
+    supplyCapHeadroomBps,
+    yieldStalled:
+      reserveBefore !== undefined &&
+      reserve.liquidityIndex <= reserveBefore.liquidityIndex,
+  };
+}
+
+/**
+ * Exit capacity of one pool over policy.exitWindowBlocks and the cap it
+ * supports. An unknown metric counts as no exit at all.
+ */
+function computeExposure(
+  health: SourceHealth,
+  totalAssets: bigint,
+  policy: RiskPolicy["exposure"]
+): SourceExposure {
+  const { utilizationBps, availableLiquidity } = health;
+  let exitCapacity = 0n;
+  if (utilizationBps !== null && availableLiquidity !== null) {
+    const utilization = Math.min(utilizationBps, 10000);
+    // Borrows implied by the idle share of the pool
+    const borrowed =
+      utilization < 10000
+        ? (availableLiquidity * BigInt(utilization)) /
+          BigInt(10000 - utilization)
+        : 0n;
+    // Marginal APR slope per 100% utilization at the current point
+    const slopeBps = Math.floor(
+      utilization < policy.kinkBps
+        ? (policy.slopeBelowKinkBps * 10000) / policy.kinkBps
+        : (policy.slopeAboveKinkBps * 10000) / (10000 - policy.kinkBps)
+    );
+    const repaidBps = Math.min(
+      Math.floor(
+        (slopeBps * policy.repayBpsPer1000Blocks * policy.exitWindowBlocks) /
+          (10000 * 1000)
+      ),
+      10000
+    );
+    exitCapacity = availableLiquidity + (borrowed * BigInt(repaidBps)) / 10000n;
+  }
+
+  const exitBps =
+    totalAssets > 0n
+      ? (exitCapacity * BigInt(policy.exitShareBps)) / totalAssets
+      : BigInt(policy.maxCapBps);
+  const capBps = Math.max(
+    policy.minCapBps,
+    Math.min(Number(exitBps > 10000n ? 10000n : exitBps), policy.maxCapBps)
+  );
+
+  return { address: health.address, exitCapacity, capBps };
+}
+
+/** Looks up a per-source scenario value by address first, then by kind */
+function scenarioValue(
+  values: Record<string, number> | undefined,
+  position: SourcePosition
+): number | undefined {
+  if (!values) return undefined;
+  for (const [key, value] of Object.entries(values)) {
+    if (key.toLowerCase() === position.address.toLowerCase()) return value;
+  }
+  return values[position.kind];
+}
+
+function paramsUnchanged(
+  newParams: SourceRiskParams[],
+  positions: SourcePosition[]
+): boolean {
+  return newParams.every((p, i) => {
+    const current = positions[i]?.currentParams;
+    return (
+      current !== undefined &&
+      current.liquidityHaircutBps === p.liquidityHaircutBps &&
+      current.stressOutflowBps === p.stressOutflowBps &&
+      current.maxConcentrationBps === p.maxConcentrationBps &&
+      current.riskTier === p.riskTier
+    );
+  });
+}
+
+/** Drains `shockBps` of a source's available liquidity; unknown stays unknown */
+function applyLiquidityShock(
+  availableLiquidity: bigint | null,
+  shockBps: number
+): bigint | null {
+  if (availableLiquidity === null) return null;
+  return (
+    (availableLiquidity * BigInt(10000 - Math.min(shockBps, 10000))) / 10000n
+  );
+}
+
 function computeSourceRiskScore(
-  utilizationBps: number,
-  availableLiquidity: bigint,
+  utilizationBps: number | null,
+  availableLiquidity: bigint | null,
   vaultExposure: bigint,
-  oracleDeviationBps: number,
-  totalVaultAssets: bigint
+  oracleDeviationBps: number | null,
+  totalVaultAssets: bigint,
+  creditRisk: number | null,
+  policy: RiskPolicy
 ): number {
-  // Utilization risk: non-linear. Near-zero below 80%, exponential above
-  let utilizationRisk = 0;
-  if (utilizationBps > 9500) utilizationRisk = 10000; // Critical: >95%
-  else if (utilizationBps > 9000) utilizationRisk = 7000; // High: 90-95%
-  else if (utilizationBps > 8000) utilizationRisk = 3000; // Moderate: 80-90%
-  else utilizationRisk = (utilizationBps * 500) / 8000; // Low: linear below 80%
+  return weighScoreComponents(
+    computeScoreComponents(
+      utilizationBps,
+      availableLiquidity,
+      vaultExposure,
+      oracleDeviationBps,
+      totalVaultAssets,
+      creditRisk ?? 0,
+      policy
+    ),
+    componentWeights(policy, creditRisk !== null)
+  );
+}
+
+/** Unknown (null) metrics score the maximum risk for their component */
+function computeScoreComponents(
+  utilizationBps: number | null,
+  availableLiquidity: bigint | null,
+  vaultExposure: bigint,
+  oracleDeviationBps: number | null,
+  totalVaultAssets: bigint,
+  creditRisk: number,
+  policy: RiskPolicy
+): Record<ScoreComponentName, number> {
+  // Utilization risk: non-linear. Near-zero below the first breakpoint,
+  // stepping up sharply above it
+  const { linearRisk, steps } = policy.utilization;
+  let utilizationRisk = 10000;
+  if (utilizationBps !== null) {
+    utilizationRisk = (utilizationBps * linearRisk) / steps[0].above;
+    for (const step of steps) {
+      if (utilizationBps > step.above) utilizationRisk = step.risk;
+    }
+  }
 
   // Liquidity risk: vault's position size vs available pool liquidity
   let liquidityRisk = 0;
-  if (availableLiquidity > 0n) {
+  if (availableLiquidity === null) {
+    liquidityRisk = 10000;
+  } else if (availableLiquidity > 0n) {
     const ratio = Number((vaultExposure * 10000n) / availableLiquidity);
     liquidityRisk = Math.min(ratio, 10000); // If vault is 100%+ of available liquidity, max risk
   } else if (vaultExposure > 0n) {
@@ -219,7 +1174,10 @@ function computeSourceRiskScore(
   }
 
   // Oracle risk
-  const oracleRisk = Math.min(oracleDeviationBps * 20, 10000); // 500bps deviation = max risk
+  const oracleRisk =
+    oracleDeviationBps === null
+      ? 10000
+      : Math.min(oracleDeviationBps * policy.oracleRiskPerBps, 10000);
 
   // Concentration risk: vault exposure as % of total vault
   const concentrationRisk =
@@ -227,59 +1185,63 @@ function computeSourceRiskScore(
       ? Number((vaultExposure * 10000n) / totalVaultAssets)
       : 0;
 
-  // Weighted composite (weights sum to 10000)
-  const score = Math.floor(
-    (utilizationRisk * 3500 +
-      liquidityRisk * 3000 +
-      oracleRisk * 2000 +
-      concentrationRisk * 1500) /
-      10000
-  );
-
-  return Math.min(score, 10000);
+  return {
+    utilization: utilizationRisk,
+    liquidity: liquidityRisk,
+    oracle: oracleRisk,
+    concentration: concentrationRisk,
+    credit: creditRisk,
+  };
 }
 
-function riskScoreToHaircut(score: number): number {
-  // Maps risk score (0-10000) to liquidity haircut (0-9500 bps)
-  // Low risk: minimal haircut. High risk: heavy haircut.
-  if (score < 2000) return 500; // 5% haircut — healthy
-  if (score < 4000) return 1500; // 15% haircut — moderate
-  if (score < 6000) return 3000; // 30% haircut — elevated
-  if (score < 8000) return 5000; // 50% haircut — high
-  return 7500; // 75% haircut — critical
-}
+/**
+ * Weights a source scores on, summing to 10000. A source without market
+ * state scores no credit, so the other four are scaled up to fill its share.
+ */
+function componentWeights(
+  policy: RiskPolicy,
+  scoresCredit: boolean
+): Record<ScoreComponentName, number> {
+  const { weights } = policy;
+  if (scoresCredit) return weights;
 
-function riskScoreToStressOutflow(score: number): number {
-  // Maps risk score to expected stress outflow rate
-  if (score < 2000) return 1000; // 10% outflow
-  if (score < 4000) return 2000; // 20% outflow
-  if (score < 6000) return 3000; // 30% outflow
-  if (score < 8000) return 5000; // 50% outflow
-  return 7000; // 70% outflow
+  const rest = 10000 - weights.credit;
+  return {
+    utilization: (weights.utilization * 10000) / rest,
+    liquidity: (weights.liquidity * 10000) / rest,
+    oracle: (weights.oracle * 10000) / rest,
+    concentration: (weights.concentration * 10000) / rest,
+    credit: 0,
+  };
 }
 
-function scoreToTier(score: number): number {
-  if (score < 2500) return 0; // GREEN
-  if (score < 5000) return 1; // YELLOW
-  if (score < 7500) return 2; // ORANGE
-  return 3; // RED
+/** Weighted average of the components */
+function weighScoreComponents(
+  components: Record<ScoreComponentName, number>,
+  weights: Record<ScoreComponentName, number>
+): number {
+  return Math.floor(
+    SCORE_COMPONENTS.reduce(
+      (sum, name) => sum + components[name] * weights[name],
+      0
+    ) / 10000
+  );
 }
 
 function encodeReportPayload(
   action: RiskResult["action"],
   params: {
-    aaveHaircutBps: number;
-    aaveConcentrationBps: number;
-    aaveStressOutflowBps: number;
-    aaveRiskTier: number;
-    morphoHaircutBps: number;
-    morphoConcentrationBps: number;
-    morphoStressOutflowBps: number;
-    morphoRiskTier: number;
+    sources: SourceRiskParams[];
     stressedLCR: number;
+    bindingScenario: string;
     systemStatus: number;
     aggregateRiskScore: number;
     timestampSec: number;
+    policyHash: `0x${string}`;
+    degraded: boolean;
+    rebalanceLegs: { source: string; amount: bigint }[];
+    emergency?: EmergencyResponse;
+    observation: Observation;
   },
   vault: VaultState
 ): string {
@@ -290,90 +1252,123 @@ function encodeReportPayload(
     return "0x";
   }
 
+  // RiskSnapshot struct: (uint256, uint256, uint64, uint8)
+  const snapshot = {
+    stressedLCR: BigInt(params.stressedLCR),
+    aggregateRiskScore: BigInt(params.aggregateRiskScore),
+    timestamp: BigInt(params.timestampSec),
+    systemStatus: params.systemStatus,
+  };
+
   if (action === "UPDATE_PARAMS") {
     // actionData encoding: (address[] sources, SourceRiskParams[] params, RiskSnapshot snapshot)
-    const sources = [vault.aaveSourceAddress, vault.morphoSourceAddress];
+    // Both arrays have one entry per source, in the same order.
+    const sources = params.sources.map((p) => p.address as `0x${string}`);
+
+    // Never sign a param set RiskModel.validateParams() would reject
+    const rejected = params.sources.filter((p) => !validateParams(p));
+    if (rejected.length > 0) {
+      throw new Error(
+        `RiskModel.validateParams() rejects the params for ${rejected.map((p) => p.address).join(", ")}`
+      );
+    }
 
     // SourceRiskParams struct: (uint16, uint16, uint16, uint64, uint8)
-    const aaveParams = {
-      liquidityHaircutBps: params.aaveHaircutBps,
-      stressOutflowBps: params.aaveStressOutflowBps,
-      maxConcentrationBps: params.aaveConcentrationBps,
+    const sourceParams = params.sources.map((p) => ({
+      liquidityHaircutBps: p.liquidityHaircutBps,
+      stressOutflowBps: p.stressOutflowBps,
+      maxConcentrationBps: p.maxConcentrationBps,
       lastUpdated: 0n, // Will be set by contract
-      riskTier: params.aaveRiskTier,
-    };
-    const morphoParams = {
-      liquidityHaircutBps: params.morphoHaircutBps,
-      stressOutflowBps: params.morphoStressOutflowBps,
-      maxConcentrationBps: params.morphoConcentrationBps,
-      lastUpdated: 0n,
-      riskTier: params.morphoRiskTier,
-    };
-
-    // RiskSnapshot struct: (uint256, uint256, uint64, uint8)
-    const snapshot = {
-      stressedLCR: BigInt(params.stressedLCR),
-      aggregateRiskScore: BigInt(params.aggregateRiskScore),
-      timestamp: BigInt(params.timestampSec),
-      systemStatus: params.systemStatus,
-    };
+      riskTier: p.riskTier,
+    }));
 
     // Encode the action data
     const actionData = encodeAbiParameters(
-      parseAbiParameters(
-        "address[] sources, (uint16 liquidityHaircutBps, uint16 stressOutflowBps, uint16 maxConcentrationBps, uint64 lastUpdated, uint8 riskTier)[] params, (uint256 stressedLCR, uint256 aggregateRiskScore, uint64 timestamp, uint8 systemStatus) snapshot"
-      ),
+      parseAbiParameters(UPDATE_PARAMS_ABI),
       [
-        sources as `0x${string}`[],
-        [aaveParams, morphoParams],
+        sources,
+        sourceParams,
         snapshot,
+        params.bindingScenario,
+        params.policyHash,
+        params.degraded,
+        {
+          timestamp: BigInt(params.observation.timestamp),
+          totalAssets: params.observation.totalAssets,
+          sources: params.observation.sources.map((o) => ({
+            source: o.address as `0x${string}`,
+            utilizationBps: o.utilizationBps,
+            availableLiquidity: o.availableLiquidity,
+          })),
+        },
       ]
     );
 
     // Encode the full report: (uint8 action, bytes actionData)
-    return encodeAbiParameters(parseAbiParameters("uint8 action, bytes data"), [
+    return encodeAbiParameters(parseAbiParameters(REPORT_ENVELOPE_ABI), [
       ACTION_UPDATE_RISK_PARAMS,
       actionData,
     ]);
   }
 
   if (action === "REBALANCE") {
-    // Pull from the riskier source
-    const riskierSource =
-      params.aaveRiskTier >= params.morphoRiskTier
-        ? vault.aaveSourceAddress
-        : vault.morphoSourceAddress;
-    const sourceBalance =
-      params.aaveRiskTier >= params.morphoRiskTier
-        ? vault.aaveBalance
-        : vault.morphoBalance;
-
-    // Withdraw 50% of the risky source's balance
-    const withdrawAmount = sourceBalance / 2n;
-
     const actionData = encodeAbiParameters(
-      parseAbiParameters("address source, uint256 amount"),
-      [riskierSource as `0x${string}`, withdrawAmount]
+      parseAbiParameters(DEFENSIVE_REBALANCE_ABI),
+      [
+        params.rebalanceLegs.map((leg) => ({
+          source: leg.source as `0x${string}`,
+          amount: leg.amount,
+        })),
+        params.policyHash,
+        params.degraded,
+        snapshot,
+      ]
     );
 
-    return encodeAbiParameters(parseAbiParameters("uint8 action, bytes data"), [
+    return encodeAbiParameters(parseAbiParameters(REPORT_ENVELOPE_ABI), [
       ACTION_DEFENSIVE_REBALANCE,
       actionData,
     ]);
   }
 
   if (action === "EMERGENCY_PAUSE") {
-    const severity = params.systemStatus >= 3 ? 1 : 0; // severity 1 = pause + unwind
+    if (!params.emergency) return "0x";
+    const { severity, redSince, unwindSource, unwindAmount } = params.emergency;
     const actionData = encodeAbiParameters(
-      parseAbiParameters("uint8 severity"),
-      [severity]
+      parseAbiParameters(EMERGENCY_PAUSE_ABI),
+      [
+        severity,
+        params.policyHash,
+        params.degraded,
+        BigInt(redSince),
+        (unwindSource ?? ZERO_ADDRESS) as `0x${string}`,
+        unwindAmount,
+      ]
     );
 
-    return encodeAbiParameters(parseAbiParameters("uint8 action, bytes data"), [
+    return encodeAbiParameters(parseAbiParameters(REPORT_ENVELOPE_ABI), [
       ACTION_EMERGENCY_PAUSE,
       actionData,
     ]);
   }
 
+  if (action === "SETTLE_EPOCH") {
+    // Epoch id guards against a delayed report settling a later epoch
+    const actionData = encodeAbiParameters(
+      parseAbiParameters(SETTLE_EPOCH_ABI),
+      [
+        BigInt(vault.currentEpochId),
+        params.policyHash,
+        params.degraded,
+        snapshot,
+      ]
+    );
+
+    return encodeAbiParameters(parseAbiParameters(REPORT_ENVELOPE_ABI), [
+      ACTION_SETTLE_EPOCH,
+      actionData,
+    ]);
+  }
+
   return "0x";
 }
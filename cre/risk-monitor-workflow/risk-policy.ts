@@ -0,0 +1,591 @@
+/**
+ * Risk Policy
+ *
+ * Every tunable number behind the risk model — score weights, utilization
+ * breakpoints, lending-market credit scoring, the reserve flags that force
+ * a source to RED, the score → parameter ladders, the exit-capacity model
+ * behind concentration caps and the LCR status bands — as one versioned
+ * document loaded from config. The policy hash travels in
+ * every report so on-chain consumers can tell which policy produced it.
+ *
+ * Pure functions, no CRE SDK dependencies — safe to run on every DON node.
+ */
+
+import { encodeAbiParameters, keccak256, parseAbiParameters } from "viem";
+import { BPS, MAX_HAIRCUT_BPS, TIER_RED } from "./risk-math";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Type Definitions
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Maps a risk score (0-10000) to a value: the first step whose `below`
+ * exceeds the score wins, `top` applies to everything above the last step.
+ */
+export interface ScoreLadder {
+  steps: { below: number; value: number }[]; // ascending `below`
+  top: number;
+}
+
+export interface RiskPolicy {
+  /** Human-readable label, e.g. "2025-06-baseline" */
+  version: string;
+  /**
+   * Composite score weights (bps, all five must sum to 10000). A source
+   * without market state scores no credit; the other four are scaled up to
+   * fill its share, so credit must leave them some weight.
+   */
+  weights: {
+    utilization: number;
+    liquidity: number;
+    oracle: number;
+    concentration: number;
+    credit: number;
+  };
+  /**
+   * Utilization risk: linear from 0 to `linearRisk` up to the first step's
+   * `above`, then the `risk` of the highest step the utilization exceeds.
+   */
+  utilization: {
+    linearRisk: number;
+    steps: { above: number; risk: number }[]; // ascending `above`
+  };
+  /** Oracle risk per bps of deviation (capped at 10000) */
+  oracleRiskPerBps: number;
+  /**
+   * Credit risk of lending markets that report their state (Morpho Blue),
+   * from two readings `lookbackBlocks` apart: supply written off as bad debt,
+   * and the fall in the collateral price against the LLTV buffer (the drop
+   * that takes a position at LLTV underwater). Weighed by `weights.credit`.
+   */
+  credit: {
+    lookbackBlocks: number;
+    badDebtRiskPerBps: number; // risk per bps of supply written off (capped at 10000)
+  };
+  /**
+   * Reserve state of sources that report it (Aave V3). An inactive, frozen
+   * or paused reserve, or a supply cap with less than
+   * `minSupplyCapHeadroomBps` of it left, forces the source to score 10000
+   * and tier RED; 0 turns the cap check off. The liquidity index is
+   * compared across `credit.lookbackBlocks` to spot a yield that stopped.
+   */
+  reserve: {
+    minSupplyCapHeadroomBps: number;
+  };
+  haircut: ScoreLadder;
+  stressOutflow: ScoreLadder;
+  /**
+   * Concentration caps from each pool's exit capacity: what the vault could
+   * withdraw within `exitWindowBlocks` — the available liquidity now plus
+   * the borrows repaid over the window. Repayment speeds up with the
+   * marginal slope of the pool's kinked interest-rate curve.
+   */
+  exposure: {
+    exitWindowBlocks: number;
+    kinkBps: number; // utilization where the rate curve turns steep
+    slopeBelowKinkBps: number; // APR rise from 0 to the kink
+    slopeAboveKinkBps: number; // APR rise from the kink to 100%
+    repayBpsPer1000Blocks: number; // share of borrows repaid per 1000 blocks at a 100% APR slope
+    exitShareBps: number; // share of the exit capacity the vault can count on
+    minCapBps: number;
+    maxCapBps: number;
+  };
+  tier: ScoreLadder;
+  /**
+   * Stressed LCR bands. A status is entered as soon as LCR drops below
+   * `enterBelow`, but only left once LCR recovers to `exitAtOrAbove`, so a
+   * reading hovering around a cutoff doesn't flap the vault between statuses.
+   */
+  statusBands: { status: number; enterBelow: number; exitAtOrAbove: number }[];
+  /**
+   * RED response rungs, mildest first (severity 0-3). A rung fires once the
+   * vault has been RED for `redForSeconds`, or at once when stressed LCR
+   * drops below `lcrBelow`; the highest firing rung wins.
+   */
+  emergencyLadder: {
+    severity: number;
+    lcrBelow: number;
+    redForSeconds: number;
+  }[];
+  /**
+   * Trend scoring against the observations stored on the vault. Rates are
+   * bps per hour; each *Risk factor is the score added per bps/hour, in bps
+   * (5000 = 0.5). The summed penalty is capped at `maxPenalty`.
+   */
+  trend: {
+    windowSeconds: number; // observations older than this are ignored
+    sampleEverySeconds: number; // write a fresh observation at least this often
+    utilizationRiseRisk: number;
+    liquidityDrainRisk: number;
+    tvlOutflowRisk: number; // applies to every source
+    maxPenalty: number;
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Default Policy — the original hard-coded model
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * `version` moves with every change to what the defaults score: v2 added the
+ * emergency ladder, v3 trends, v4 exit-capacity caps, v5 credit, v6 reserve
+ * flags, v7 credit inside the weighted average.
+ */
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  version: "v7-credit-weighted",
+  // Without credit these scale back to 3500 / 3000 / 2000 / 1500
+  weights: {
+    utilization: 2450,
+    liquidity: 2100,
+    oracle: 1400,
+    concentration: 1050,
+    credit: 3000,
+  },
+  utilization: {
+    linearRisk: 500, // Low: linear below 80%
+    steps: [
+      { above: 8000, risk: 3000 }, // Moderate: 80-90%
+      { above: 9000, risk: 7000 }, // High: 90-95%
+      { above: 9500, risk: 10000 }, // Critical: >95%
+    ],
+  },
+  oracleRiskPerBps: 20, // 500bps deviation = max risk
+  credit: {
+    lookbackBlocks: 1800, // one hour of 2s blocks
+    badDebtRiskPerBps: 500, // 20 bps of supply written off = max risk
+  },
+  reserve: {
+    minSupplyCapHeadroomBps: 50, // less than 0.5% of the cap left = full
+  },
+  haircut: {
+    steps: [
+      { below: 2000, value: 500 }, // 5% haircut — healthy
+      { below: 4000, value: 1500 }, // 15% haircut — moderate
+      { below: 6000, value: 3000 }, // 30% haircut — elevated
+      { below: 8000, value: 5000 }, // 50% haircut — high
+    ],
+    top: 7500, // 75% haircut — critical
+  },
+  stressOutflow: {
+    steps: [
+      { below: 2000, value: 1000 }, // 10% outflow
+      { below: 4000, value: 2000 }, // 20% outflow
+      { below: 6000, value: 3000 }, // 30% outflow
+      { below: 8000, value: 5000 }, // 50% outflow
+    ],
+    top: 7000, // 70% outflow
+  },
+  exposure: {
+    exitWindowBlocks: 1800, // one hour of 2s blocks
+    kinkBps: 8000,
+    slopeBelowKinkBps: 400, // 4% APR at the kink
+    slopeAboveKinkBps: 6000, // +60% APR from the kink to 100%
+    repayBpsPer1000Blocks: 100, // past the kink: 5.4% of borrows per hour
+    exitShareBps: 10000,
+    minCapBps: 0,
+    maxCapBps: 6000, // never more than 60% of TVL in one source
+  },
+  tier: {
+    steps: [
+      { below: 2500, value: 0 }, // GREEN
+      { below: 5000, value: 1 }, // YELLOW
+      { below: 7500, value: 2 }, // ORANGE
+    ],
+    top: 3, // RED
+  },
+  statusBands: [
+    { status: 1, enterBelow: 15000, exitAtOrAbove: 15500 }, // YELLOW: 120-150%
+    { status: 2, enterBelow: 12000, exitAtOrAbove: 12500 }, // ORANGE: 100-120%
+    { status: 3, enterBelow: 10000, exitAtOrAbove: 10500 }, // RED: < 100%
+  ],
+  emergencyLadder: [
+    { severity: 0, lcrBelow: 10000, redForSeconds: 0 }, // halt deposits
+    { severity: 1, lcrBelow: 9000, redForSeconds: 900 }, // halt deployments
+    { severity: 2, lcrBelow: 8000, redForSeconds: 3600 }, // unwind worst source
+    { severity: 3, lcrBelow: 6000, redForSeconds: 14400 }, // pause + unwind all
+  ],
+  trend: {
+    windowSeconds: 3600,
+    sampleEverySeconds: 900,
+    utilizationRiseRisk: 5000, // 70% → 89% in 15 min (7600 bps/h) hits the cap
+    liquidityDrainRisk: 2000,
+    tvlOutflowRisk: 2000,
+    maxPenalty: 3000,
+  },
+};
+
+/**
+ * Fills the sections a policy predates (anything added after v1) from
+ * DEFAULT_RISK_POLICY, so a policy written for an older model still loads.
+ * The policy hash covers the filled-in sections, so it still names what the
+ * model ran with. Weights are never filled: a policy from before credit
+ * was weighted fails checkRiskPolicy instead of scoring on weights it does
+ * not state. The rest is checkRiskPolicy's job.
+ */
+export function withPolicyDefaults(policy: Partial<RiskPolicy>): RiskPolicy {
+  return {
+    emergencyLadder: DEFAULT_RISK_POLICY.emergencyLadder,
+    trend: DEFAULT_RISK_POLICY.trend,
+    exposure: DEFAULT_RISK_POLICY.exposure,
+    credit: DEFAULT_RISK_POLICY.credit,
+    reserve: DEFAULT_RISK_POLICY.reserve,
+    ...policy,
+  } as RiskPolicy;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Evaluation
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function applyLadder(ladder: ScoreLadder, score: number): number {
+  for (const step of ladder.steps) {
+    if (score < step.below) return step.value;
+  }
+  return ladder.top;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Hash
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Tuple components are named after the RiskPolicy fields they encode
+const LADDER_TUPLE = "((uint32 below, uint32 value)[] steps, uint32 top)";
+const POLICY_HASH_ABI = [
+  "string version",
+  "(uint32 utilization, uint32 liquidity, uint32 oracle, uint32 concentration, uint32 credit) weights",
+  "(uint32 linearRisk, (uint32 above, uint32 risk)[] steps) utilization",
+  "uint32 oracleRiskPerBps",
+  "(uint32 lookbackBlocks, uint32 badDebtRiskPerBps) credit",
+  "(uint32 minSupplyCapHeadroomBps) reserve",
+  `${LADDER_TUPLE} haircut`,
+  `${LADDER_TUPLE} stressOutflow`,
+  "(uint32 exitWindowBlocks, uint32 kinkBps, uint32 slopeBelowKinkBps, uint32 slopeAboveKinkBps, uint32 repayBpsPer1000Blocks, uint32 exitShareBps, uint32 minCapBps, uint32 maxCapBps) exposure",
+  `${LADDER_TUPLE} tier`,
+  "(uint8 status, uint32 enterBelow, uint32 exitAtOrAbove)[] statusBands",
+  "(uint8 severity, uint32 lcrBelow, uint32 redForSeconds)[] emergencyLadder",
+  "(uint32 windowSeconds, uint32 sampleEverySeconds, uint32 utilizationRiseRisk, uint32 liquidityDrainRisk, uint32 tvlOutflowRisk, uint32 maxPenalty) trend",
+].join(", ");
+
+/**
+ * keccak256 of the ABI-encoded policy. Field order is fixed by the ABI
+ * layout, so the hash does not depend on key order in config.json.
+ */
+export function hashRiskPolicy(policy: RiskPolicy): `0x${string}` {
+  return keccak256(
+    encodeAbiParameters(parseAbiParameters(POLICY_HASH_ABI), [
+      policy.version,
+      policy.weights,
+      policy.utilization,
+      policy.oracleRiskPerBps,
+      policy.credit,
+      policy.reserve,
+      policy.haircut,
+      policy.stressOutflow,
+      policy.exposure,
+      policy.tier,
+      policy.statusBands,
+      policy.emergencyLadder,
+      policy.trend,
+    ])
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Validation
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Highest emergency severity (risk-model.ts SEVERITY_FULL_UNWIND)
+const SEVERITY_FULL_UNWIND = 3;
+
+const isInt = (value: unknown, min: number, max: number): boolean =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= min &&
+  value <= max;
+
+function checkLadder(
+  issues: string[],
+  path: string,
+  ladder: ScoreLadder | undefined,
+  maxValue: number
+): void {
+  if (!ladder || !Array.isArray(ladder.steps)) {
+    issues.push(`${path}: expected { steps: [{ below, value }], top }`);
+    return;
+  }
+  let previous = 0;
+  ladder.steps.forEach((step, i) => {
+    if (!isInt(step?.below, previous + 1, BPS + 1)) {
+      issues.push(
+        `${path}.steps[${i}].below: ${JSON.stringify(step?.below)} must be ascending and in [1, ${BPS + 1}]`
+      );
+    } else {
+      previous = step.below;
+    }
+    if (!isInt(step?.value, 0, maxValue)) {
+      issues.push(
+        `${path}.steps[${i}].value: ${JSON.stringify(step?.value)} must be an integer in [0, ${maxValue}]`
+      );
+    }
+  });
+  if (!isInt(ladder.top, 0, maxValue)) {
+    issues.push(
+      `${path}.top: ${JSON.stringify(ladder.top)} must be an integer in [0, ${maxValue}]`
+    );
+  }
+}
+
+function checkExposure(
+  issues: string[],
+  path: string,
+  exposure: RiskPolicy["exposure"] | undefined
+): void {
+  if (!exposure) {
+    issues.push(
+      `${path}: expected { exitWindowBlocks, kinkBps, slopeBelowKinkBps, slopeAboveKinkBps, repayBpsPer1000Blocks, exitShareBps, minCapBps, maxCapBps }`
+    );
+    return;
+  }
+  const bounds: [keyof RiskPolicy["exposure"], number, number][] = [
+    ["exitWindowBlocks", 1, 2 ** 32 - 1],
+    ["kinkBps", 1, BPS - 1],
+    ["slopeBelowKinkBps", 0, 2 ** 32 - 1],
+    ["slopeAboveKinkBps", 0, 2 ** 32 - 1],
+    ["repayBpsPer1000Blocks", 0, BPS],
+    ["exitShareBps", 0, BPS],
+    ["minCapBps", 0, BPS],
+    ["maxCapBps", exposure.minCapBps ?? 0, BPS],
+  ];
+  for (const [key, min, max] of bounds) {
+    if (!isInt(exposure[key], min, max)) {
+      issues.push(
+        `${path}.${key}: ${JSON.stringify(exposure[key])} must be an integer in [${min}, ${max}]`
+      );
+    }
+  }
+}
+
+/**
+ * Returns every problem with a policy, each prefixed with its path under
+ * `prefix`. An empty list means the model can run with it once passed
+ * through withPolicyDefaults.
+ */
+export function checkRiskPolicy(raw: unknown, prefix: string): string[] {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return [`${prefix}: expected a policy object`];
+  }
+  const policy: Partial<RiskPolicy> = withPolicyDefaults(raw);
+  const issues: string[] = [];
+
+  if (typeof policy.version !== "string" || policy.version.trim() === "") {
+    issues.push(`${prefix}.version: expected a non-empty string`);
+  }
+
+  const weights = policy.weights;
+  const weightKeys = [
+    "utilization",
+    "liquidity",
+    "oracle",
+    "concentration",
+    "credit",
+  ] as const;
+  if (!weights || weightKeys.some((k) => !isInt(weights[k], 0, BPS))) {
+    issues.push(
+      `${prefix}.weights: expected ${weightKeys.join(", ")} as integers in [0, ${BPS}]`
+    );
+  } else {
+    const sum = weightKeys.reduce((total, k) => total + weights[k], 0);
+    if (sum !== BPS) {
+      issues.push(`${prefix}.weights: sum to ${sum}, expected ${BPS}`);
+    } else if (weights.credit === BPS) {
+      issues.push(
+        `${prefix}.weights.credit: ${BPS} leaves no weight for sources without market state`
+      );
+    }
+  }
+
+  const utilization = policy.utilization;
+  if (!utilization || !Array.isArray(utilization.steps)) {
+    issues.push(
+      `${prefix}.utilization: expected { linearRisk, steps: [{ above, risk }] }`
+    );
+  } else {
+    if (!isInt(utilization.linearRisk, 0, BPS)) {
+      issues.push(
+        `${prefix}.utilization.linearRisk: ${JSON.stringify(utilization.linearRisk)} must be an integer in [0, ${BPS}]`
+      );
+    }
+    if (utilization.steps.length === 0) {
+      issues.push(`${prefix}.utilization.steps: expected at least one step`);
+    }
+    let previous = 0;
+    utilization.steps.forEach((step, i) => {
+      if (!isInt(step?.above, previous + 1, BPS - 1)) {
+        issues.push(
+          `${prefix}.utilization.steps[${i}].above: ${JSON.stringify(step?.above)} must be ascending and in [1, ${BPS - 1}]`
+        );
+      } else {
+        previous = step.above;
+      }
+      if (!isInt(step?.risk, 0, BPS)) {
+        issues.push(
+          `${prefix}.utilization.steps[${i}].risk: ${JSON.stringify(step?.risk)} must be an integer in [0, ${BPS}]`
+        );
+      }
+    });
+  }
+
+  if (!isInt(policy.oracleRiskPerBps, 0, BPS)) {
+    issues.push(
+      `${prefix}.oracleRiskPerBps: ${JSON.stringify(policy.oracleRiskPerBps)} must be an integer in [0, ${BPS}]`
+    );
+  }
+
+  const credit = policy.credit;
+  if (!credit) {
+    issues.push(
+      `${prefix}.credit: expected { lookbackBlocks, badDebtRiskPerBps }`
+    );
+  } else {
+    const bounds: [keyof RiskPolicy["credit"], number, number][] = [
+      ["lookbackBlocks", 1, 2 ** 32 - 1],
+      ["badDebtRiskPerBps", 0, BPS],
+    ];
+    for (const [key, min, max] of bounds) {
+      if (!isInt(credit[key], min, max)) {
+        issues.push(
+          `${prefix}.credit.${key}: ${JSON.stringify(credit[key])} must be an integer in [${min}, ${max}]`
+        );
+      }
+    }
+  }
+
+  if (!isInt(policy.reserve?.minSupplyCapHeadroomBps, 0, BPS)) {
+    issues.push(
+      `${prefix}.reserve.minSupplyCapHeadroomBps: ${JSON.stringify(policy.reserve?.minSupplyCapHeadroomBps)} must be an integer in [0, ${BPS}]`
+    );
+  }
+
+  checkLadder(issues, `${prefix}.haircut`, policy.haircut, MAX_HAIRCUT_BPS);
+  checkLadder(issues, `${prefix}.stressOutflow`, policy.stressOutflow, BPS);
+  checkExposure(issues, `${prefix}.exposure`, policy.exposure);
+  checkLadder(issues, `${prefix}.tier`, policy.tier, TIER_RED);
+
+  if (!Array.isArray(policy.statusBands)) {
+    issues.push(
+      `${prefix}.statusBands: expected [{ status, enterBelow, exitAtOrAbove }]`
+    );
+  } else {
+    // YELLOW, ORANGE, RED in order, each entered at a lower LCR than the last
+    let previousEnter = Infinity;
+    policy.statusBands.forEach((band, i) => {
+      const path = `${prefix}.statusBands[${i}]`;
+      if (band?.status !== i + 1) {
+        issues.push(
+          `${path}.status: ${JSON.stringify(band?.status)}, expected ${i + 1}`
+        );
+      }
+      if (
+        !isInt(band?.enterBelow, 1, 2 ** 32 - 1) ||
+        band.enterBelow >= previousEnter
+      ) {
+        issues.push(
+          `${path}.enterBelow: ${JSON.stringify(band?.enterBelow)} must be a positive integer below the previous band's`
+        );
+      } else {
+        previousEnter = band.enterBelow;
+      }
+      if (!isInt(band?.exitAtOrAbove, band?.enterBelow, 2 ** 32 - 1)) {
+        issues.push(
+          `${path}.exitAtOrAbove: ${JSON.stringify(band?.exitAtOrAbove)} must be an integer >= enterBelow`
+        );
+      }
+    });
+    if (policy.statusBands.length !== TIER_RED) {
+      issues.push(
+        `${prefix}.statusBands: ${policy.statusBands.length} bands, expected ${TIER_RED} (YELLOW, ORANGE, RED)`
+      );
+    }
+  }
+
+  if (!Array.isArray(policy.emergencyLadder)) {
+    issues.push(
+      `${prefix}.emergencyLadder: expected [{ severity, lcrBelow, redForSeconds }]`
+    );
+  } else {
+    // Each rung is stricter than the last: it waits longer in RED and needs
+    // a lower LCR to skip the wait. The first rung fires on any RED tick.
+    let previousLcr = Infinity;
+    let previousWait = -1;
+    policy.emergencyLadder.forEach((rung, i) => {
+      const path = `${prefix}.emergencyLadder[${i}]`;
+      if (rung?.severity !== i) {
+        issues.push(
+          `${path}.severity: ${JSON.stringify(rung?.severity)}, expected ${i}`
+        );
+      }
+      if (
+        !isInt(rung?.lcrBelow, 0, 2 ** 32 - 1) ||
+        rung.lcrBelow > previousLcr
+      ) {
+        issues.push(
+          `${path}.lcrBelow: ${JSON.stringify(rung?.lcrBelow)} must be an integer no higher than the previous rung's`
+        );
+      } else {
+        previousLcr = rung.lcrBelow;
+      }
+      const minWait = i === 0 ? 0 : previousWait;
+      const maxWait = i === 0 ? 0 : 2 ** 32 - 1;
+      if (!isInt(rung?.redForSeconds, minWait, maxWait)) {
+        issues.push(
+          i === 0
+            ? `${path}.redForSeconds: ${JSON.stringify(rung?.redForSeconds)}, expected 0`
+            : `${path}.redForSeconds: ${JSON.stringify(rung?.redForSeconds)} must be an integer no lower than the previous rung's`
+        );
+      } else {
+        previousWait = rung.redForSeconds;
+      }
+    });
+    if (policy.emergencyLadder.length !== SEVERITY_FULL_UNWIND + 1) {
+      issues.push(
+        `${prefix}.emergencyLadder: ${policy.emergencyLadder.length} rungs, expected ${SEVERITY_FULL_UNWIND + 1}`
+      );
+    }
+  }
+
+  const trend = policy.trend;
+  const trendKeys = [
+    "utilizationRiseRisk",
+    "liquidityDrainRisk",
+    "tvlOutflowRisk",
+    "maxPenalty",
+  ] as const;
+  if (!trend) {
+    issues.push(
+      `${prefix}.trend: expected { windowSeconds, sampleEverySeconds, ${trendKeys.join(", ")} }`
+    );
+  } else {
+    if (!isInt(trend.sampleEverySeconds, 1, 2 ** 32 - 1)) {
+      issues.push(
+        `${prefix}.trend.sampleEverySeconds: ${JSON.stringify(trend.sampleEverySeconds)} must be a positive integer`
+      );
+    }
+    if (
+      !isInt(trend.windowSeconds, 1, 2 ** 32 - 1) ||
+      trend.windowSeconds < trend.sampleEverySeconds
+    ) {
+      issues.push(
+        `${prefix}.trend.windowSeconds: ${JSON.stringify(trend.windowSeconds)} must be an integer >= sampleEverySeconds`
+      );
+    }
+    for (const key of trendKeys) {
+      if (!isInt(trend[key], 0, BPS)) {
+        issues.push(
+          `${prefix}.trend.${key}: ${JSON.stringify(trend[key])} must be an integer in [0, ${BPS}]`
+        );
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,242 @@
+/**
+ * Risk Run Report
+ *
+ * The machine-readable record of one handler run: what was read, how each
+ * source scored, what the model decided and what reached the chain. The
+ * handlers return it and log it as a single JSON line next to the
+ * human-readable log, so monitoring can parse a run without scraping text.
+ *
+ * The shape is a contract with downstream tooling. Any change that removes,
+ * renames or retypes a field bumps RUN_REPORT_SCHEMA_VERSION; new optional
+ * fields do not.
+ *
+ * Amounts are decimal strings (JSON has no bigint) and an unknown health
+ * metric is left out rather than set to null, which CRE cannot serialize.
+ */
+
+import type { VaultTarget } from "./config";
+import {
+  recordedStatus,
+  type MarketState,
+  type ProtocolHealth,
+  type ReserveState,
+  type RiskResult,
+  type SourceReserve,
+  type VaultState,
+} from "./risk-model";
+import type { VaultEvent } from "./vault-events";
+
+export const RUN_REPORT_SCHEMA_VERSION = 1;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Type Definitions
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type RunOutcome =
+  | "healthy"
+  | "healthy_degraded"
+  | "action_taken"
+  | "action_taken_degraded"
+  | "debounced"
+  | "skipped_stale_epoch"
+  | "error_unknown_chain"
+  | "error_invalid_payload"
+  | "error_tx_failed"
+  | "error_exception";
+
+export interface RiskRunReport {
+  schemaVersion: typeof RUN_REPORT_SCHEMA_VERSION;
+  trigger:
+    | { kind: "cron" }
+    | {
+        kind: "vault_event";
+        event: VaultEvent["name"];
+        blockNumber: string;
+        logIndex: number;
+      };
+  startedAt: string; // ISO 8601, runtime.now()
+  finishedAt: string;
+  targets: TargetRunReport[]; // config order
+}
+
+export interface TargetRunReport {
+  chainSelectorName: string;
+  vaultAddress: string;
+  outcome: RunOutcome;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  inputs?: RunInputs; // set once the chain state was read
+  risk?: RunRisk; // set once the model ran
+  payloadHash?: `0x${string}`; // keccak256 of the signed payload
+  txHash?: `0x${string}`; // set when the write succeeded
+  error?: string; // message of an error outcome
+}
+
+export interface RunInputs {
+  blockNumber: string;
+  totalAssets: string;
+  idleBalance: string;
+  pendingWithdrawals: string;
+  currentEpochId: number;
+  sources: {
+    address: string;
+    kind: string;
+    balance: string;
+    utilizationBps?: number;
+    availableLiquidity?: string;
+    oracleDeviationBps?: number;
+    market?: RunMarketState; // lending markets whose state was read
+    reserve?: RunReserveState; // reserves whose state was read
+  }[];
+}
+
+/** MarketState with its amounts as decimal strings */
+export type RunMarketState = { [K in keyof MarketState]: string };
+
+/** ReserveState with its amounts as decimal strings */
+export type RunReserveState = {
+  [K in keyof ReserveState]: ReserveState[K] extends bigint ? string : boolean;
+};
+
+export interface RunRisk {
+  sources: {
+    address: string;
+    kind: string;
+    score: number;
+    // Each component's risk before weighting, rounded down to whole bps
+    components: {
+      utilization: number;
+      liquidity: number;
+      oracle: number;
+      concentration: number;
+      trend: number;
+      credit?: number; // lending markets only
+    };
+    haircutBps: number;
+    maxConcentrationBps: number;
+    reserve?: Omit<SourceReserve, "address">; // sources reporting a reserve
+  }[];
+  stressedLCR: number;
+  bindingScenario: string;
+  scenarios: { name: string; stressedLCR: number }[];
+  systemStatus: RiskResult["systemStatus"];
+  previousStatus?: number; // recordedStatus() of the vault read, if any
+  action: RiskResult["action"];
+  policyVersion: string;
+  policyHash: `0x${string}`;
+  degraded: boolean;
+  unknownMetrics: string[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Builders
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function reportTrigger(event?: VaultEvent): RiskRunReport["trigger"] {
+  return event
+    ? {
+        kind: "vault_event",
+        event: event.name,
+        blockNumber: event.blockNumber.toString(),
+        logIndex: event.logIndex,
+      }
+    : { kind: "cron" };
+}
+
+export function reportInputs(
+  blockNumber: bigint,
+  vaultState: VaultState,
+  protocolHealth: ProtocolHealth
+): RunInputs {
+  return {
+    blockNumber: blockNumber.toString(),
+    totalAssets: vaultState.totalAssets.toString(),
+    idleBalance: vaultState.idleBalance.toString(),
+    pendingWithdrawals: vaultState.pendingWithdrawals.toString(),
+    currentEpochId: vaultState.currentEpochId,
+    sources: vaultState.sources.map((source, i) => {
+      const health = protocolHealth.sources[i];
+      return {
+        address: source.address,
+        kind: source.kind,
+        balance: source.balance.toString(),
+        ...(health.utilizationBps !== null && {
+          utilizationBps: health.utilizationBps,
+        }),
+        ...(health.availableLiquidity !== null && {
+          availableLiquidity: health.availableLiquidity.toString(),
+        }),
+        ...(health.oracleDeviationBps !== null && {
+          oracleDeviationBps: health.oracleDeviationBps,
+        }),
+        ...(health.market && {
+          market: Object.fromEntries(
+            Object.entries(health.market).map(([k, v]) => [k, v.toString()])
+          ) as RunMarketState,
+        }),
+        ...(health.reserve && {
+          reserve: Object.fromEntries(
+            Object.entries(health.reserve).map(([k, v]) => [
+              k,
+              typeof v === "bigint" ? v.toString() : v,
+            ])
+          ) as RunReserveState,
+        }),
+      };
+    }),
+  };
+}
+
+export function reportRisk(
+  riskResult: RiskResult,
+  vault?: Pick<VaultState, "lastSnapshot" | "emergency">
+): RunRisk {
+  const previousStatus = vault && recordedStatus(vault);
+  return {
+    sources: riskResult.sourceScores.map((source, i) => {
+      const reserve = riskResult.reserves.find(
+        (r) => r.address === source.address
+      );
+      return {
+        address: source.address,
+        kind: source.kind,
+        score: source.score,
+        components: {
+          utilization: Math.floor(source.components.utilization.value),
+          liquidity: Math.floor(source.components.liquidity.value),
+          oracle: Math.floor(source.components.oracle.value),
+          concentration: Math.floor(source.components.concentration.value),
+          trend: source.trendPenalty,
+          ...(riskResult.credits.some((c) => c.address === source.address) && {
+            credit: Math.floor(source.components.credit.value),
+          }),
+        },
+        haircutBps: riskResult.newParams[i].liquidityHaircutBps,
+        maxConcentrationBps: riskResult.newParams[i].maxConcentrationBps,
+        ...(reserve && {
+          reserve: {
+            flags: reserve.flags,
+            ...(reserve.supplyCapHeadroomBps !== undefined && {
+              supplyCapHeadroomBps: reserve.supplyCapHeadroomBps,
+            }),
+            yieldStalled: reserve.yieldStalled,
+          },
+        }),
+      };
+    }),
+    stressedLCR: riskResult.stressedLCR,
+    bindingScenario: riskResult.bindingScenario,
+    scenarios: riskResult.scenarioResults.map((scenario) => ({
+      name: scenario.name,
+      stressedLCR: scenario.stressedLCR,
+    })),
+    systemStatus: riskResult.systemStatus,
+    ...(previousStatus !== undefined && { previousStatus }),
+    action: riskResult.action,
+    policyVersion: riskResult.policyVersion,
+    policyHash: riskResult.policyHash,
+    degraded: riskResult.degraded,
+    unknownMetrics: riskResult.unknownMetrics,
+  };
+}
@@ -0,0 +1,978 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  keccak256,
+  toFunctionSelector,
+  type Hex,
+} from "viem";
+import { AAVE_V3_YIELD_SOURCE_ABI } from "../bindings/contracts";
+import { decodeReportPayload } from "../report-decoder";
+import { DEFAULT_RISK_POLICY, hashRiskPolicy } from "../risk-policy";
+import { RUN_REPORT_SCHEMA_VERSION } from "../run-report";
+import {
+  applyWrites,
+  fixtureKey,
+  loadFixture,
+  MissingFixtureError,
+  runSimulation,
+  type ChainFixture,
+  type FixtureLog,
+} from "./harness";
+import { VAULT_EVENTS_ABI } from "../vault-events";
+
+const fixture = (name: string) =>
+  loadFixture(join(import.meta.dir, "fixtures", `${name}.json`));
+
+// WithdrawRequested log for `epochId` at `blockNumber`
+const withdrawLog = (
+  epochId: bigint,
+  blockNumber: number,
+  index = 0,
+  shares = 250_000n * 10n ** 18n
+): FixtureLog => ({
+  blockNumber: String(blockNumber),
+  index,
+  topics: encodeEventTopics({
+    abi: VAULT_EVENTS_ABI,
+    eventName: "WithdrawRequested",
+    args: {
+      user: "0x000000000000000000000000000000000000bEEF",
+      epochId,
+    },
+  }) as string[],
+  data: encodeAbiParameters([{ type: "uint256" }], [shares]),
+});
+
+// Block the credit and reserve lookback reads at, for fixtures recorded at 28400000
+const LOOKBACK_BLOCK = String(
+  28_400_000 - DEFAULT_RISK_POLICY.credit.lookbackBlocks
+);
+
+// Fixture key of a no-argument call, e.g. callKey(vault, "totalAssets()")
+const callKey = (to: string, signature: string) =>
+  fixtureKey(to, toFunctionSelector(signature));
+
+describe("onRiskCheck replay", () => {
+  test("healthy vault writes a routine param update", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const { outcome, runtime, evmClient } = runSimulation(f);
+
+    expect(outcome).toBe("action_taken");
+    expect(runtime.reports).toHaveLength(1);
+    expect(evmClient.writes).toHaveLength(1);
+    expect(evmClient.writes[0].receiver).toBe(f.config.targets[0].vaultAddress);
+    expect(evmClient.writes[0].gasLimit).toBe(f.config.targets[0].gasLimit);
+
+    const report = decodeReportPayload(runtime.reports[0]);
+    expect(report.action).toBe("UPDATE_PARAMS");
+    if (report.action !== "UPDATE_PARAMS") return;
+    expect(report.sources).toEqual(
+      f.config.targets[0].sources.map((s) => s.address)
+    );
+    expect(report.snapshot.systemStatus).toBe(0);
+    expect(report.snapshot.timestamp).toBe(BigInt(f.nowUnixSeconds));
+    expect(report.degraded).toBe(false);
+  });
+
+  test("the worst configured scenario is binding", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const { runtime } = runSimulation({
+      ...f,
+      config: {
+        ...f.config,
+        stressScenarios: [
+          { name: "baseline 30%", outflowRateBps: 3000 },
+          { name: "bank-run 50%", outflowRateBps: 5000 },
+          { name: "mild 10%", outflowRateBps: 1000 },
+        ],
+      },
+    });
+
+    const report = decodeReportPayload(runtime.reports[0]);
+    expect(report.action).toBe("UPDATE_PARAMS");
+    if (report.action !== "UPDATE_PARAMS") return;
+    expect(report.bindingScenario).toBe("bank-run 50%");
+    expect(runtime.logs.some((l) => l.includes('Scenario "mild 10%"'))).toBe(
+      true
+    );
+  });
+
+  test("a retuned policy changes the params and the report's policy hash", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const baseline = decodeReportPayload(runSimulation(f).runtime.reports[0]);
+    expect(baseline.policyHash).toBe(hashRiskPolicy(DEFAULT_RISK_POLICY));
+
+    const strict = {
+      ...DEFAULT_RISK_POLICY,
+      version: "v2-strict",
+      haircut: { steps: [], top: 9000 },
+    };
+    const { runtime } = runSimulation({
+      ...f,
+      config: { ...f.config, riskPolicy: strict },
+    });
+
+    const report = decodeReportPayload(runtime.reports[0]);
+    expect(report.policyHash).toBe(hashRiskPolicy(strict));
+    expect(report.action).toBe("UPDATE_PARAMS");
+    if (report.action !== "UPDATE_PARAMS") return;
+    expect(report.params.every((p) => p.liquidityHaircutBps === 9000)).toBe(
+      true
+    );
+  });
+
+  test("params RiskModel.validateParams() rejects are never signed", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const { outcome, runtime } = runSimulation({
+      ...f,
+      config: {
+        ...f.config,
+        riskPolicy: { ...DEFAULT_RISK_POLICY, tier: { steps: [], top: 4 } },
+      },
+    });
+
+    expect(outcome).toBe("error_exception");
+    expect(runtime.reports).toHaveLength(0);
+    expect(
+      runtime.logs.some((l) =>
+        l.startsWith("[ERROR] RiskModel.validateParams() rejects the params")
+      )
+    ).toBe(true);
+  });
+
+  test("a payload the decoder guard rejects is never signed", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const morpho = f.config.targets[0].sources.find(
+      (s) => s.kind === "morpho-blue"
+    )!.address;
+    // A broken adapter reporting 120% utilization; the observation carries it as-is
+    const { outcome, runtime, evmClient } = runSimulation({
+      ...f,
+      calls: {
+        ...f.calls,
+        [callKey(morpho, "getMarketUtilization()")]: encodeAbiParameters(
+          [{ type: "uint256" }],
+          [12_000n]
+        ),
+      },
+    });
+
+    expect(outcome).toBe("error_invalid_payload");
+    expect(runtime.reports).toHaveLength(0);
+    expect(evmClient.writes).toHaveLength(0);
+    expect(runtime.logs).toContain(
+      `[ERROR] Invalid report payload: observation.sources[1] (${morpho}).utilizationBps 12000 > 10000`
+    );
+  });
+
+  test("Morpho liquidity crunch triggers a defensive rebalance", async () => {
+    const f = await fixture("morpho-liquidity-crunch");
+    const { outcome, runtime } = runSimulation(f);
+
+    expect(outcome).toBe("action_taken");
+    const report = decodeReportPayload(runtime.reports[0]);
+    expect(report.action).toBe("REBALANCE");
+    if (report.action !== "REBALANCE") return;
+    const [aave, morpho] = f.config.targets[0].sources.map((s) => s.address);
+
+    // Morpho can only pay out its 20k available liquidity; Aave covers the
+    // rest of the gap to the 120% target
+    expect(report.legs).toEqual([
+      { source: aave, amount: 156_666_666_667n },
+      { source: morpho, amount: 20_000_000_000n },
+    ]);
+    expect(
+      runtime.logs.some((l) =>
+        l.includes("target LCR 12000 bps, projected 12000 bps")
+      )
+    ).toBe(true);
+  });
+
+  test("concentration caps follow each pool's exit capacity", async () => {
+    const { runtime } = runSimulation(await fixture("morpho-liquidity-crunch"));
+
+    // Aave's deep book hits the 60% ceiling; Morpho's 20k of liquidity (plus
+    // what repayments free up within the exit window) only supports ~5%
+    expect(runtime.logs).toContain(
+      "    exit capacity: 628200000000 → cap 6000 bps"
+    );
+    expect(runtime.logs).toContain(
+      "    exit capacity: 54919999999 → cap 549 bps"
+    );
+  });
+
+  test("caps that leave idle uncovered trim a GREEN vault", async () => {
+    const f = await fixture("thin-exit-depth");
+    const { outcome, runtime } = runSimulation(f);
+
+    expect(outcome).toBe("action_taken");
+    const report = decodeReportPayload(runtime.reports[0]);
+    expect(report.action).toBe("REBALANCE");
+    if (report.action !== "REBALANCE") return;
+    const [aave, morpho] = f.config.targets[0].sources.map((s) => s.address);
+
+    // Caps of 40.06% + 30.06% leave a 29.88% idle floor; 5% idle is below it
+    expect(report.legs).toEqual([
+      { source: aave, amount: 199_400_000_000n },
+      { source: morpho, amount: 49_400_000_000n },
+    ]);
+    expect(runtime.logs).toContain(
+      "  Idle floor:       298800000000 (caps sum below 100%)"
+    );
+  });
+
+  test("matured epoch with pending withdrawals is settled", async () => {
+    const { outcome, runtime, report: run } = runSimulation(
+      await fixture("matured-epoch")
+    );
+
+    expect(outcome).toBe("action_taken");
+    // 40,000e9 burned shares at 1.25 assets per 1,000 shares
+    expect(run.targets[0].inputs?.pendingWithdrawals).toBe("50000000000");
+    const report = decodeReportPayload(runtime.reports[0]);
+    expect(report).toMatchObject({ action: "SETTLE_EPOCH", epochId: 3n });
+  });
+
+  test("reverted write surfaces error_tx_failed", async () => {
+    const { outcome, runtime, evmClient } = runSimulation(
+      await fixture("write-reverted")
+    );
+
+    expect(outcome).toBe("error_tx_failed");
+    expect(evmClient.writes).toHaveLength(1);
+    expect(runtime.logs.some((l) => l.includes("execution reverted"))).toBe(
+      true
+    );
+  });
+
+  test("unchanged params skip the write", async () => {
+    const { outcome, runtime, evmClient } = runSimulation(
+      await fixture("unchanged-params")
+    );
+
+    expect(outcome).toBe("healthy");
+    expect(runtime.reports).toHaveLength(0);
+    expect(evmClient.writes).toHaveLength(0);
+  });
+
+  test("a second tick against the written params skips the write", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const first = runSimulation(f);
+    expect(first.outcome).toBe("action_taken");
+
+    // Five minutes on, well inside the observation sample period
+    const second = runSimulation({
+      ...applyWrites(f, first),
+      nowUnixSeconds: f.nowUnixSeconds + 300,
+    });
+
+    expect(second.outcome).toBe("healthy");
+    expect(second.runtime.reports).toHaveLength(0);
+    expect(second.evmClient.writes).toHaveLength(0);
+  });
+
+  test("ORANGE holds until LCR clears the exit threshold", async () => {
+    const entry = await fixture("orange-entry");
+    const first = runSimulation(entry);
+    const written = decodeReportPayload(first.runtime.reports[0]);
+    expect(written.action).toBe("REBALANCE");
+    if (written.action !== "REBALANCE") return;
+    expect(written.snapshot.systemStatus).toBe(2);
+
+    // The next tick reads back the status the rebalance recorded
+    const next = await fixture("orange-hysteresis");
+    const snapshotKey = callKey(
+      entry.config.targets[0].vaultAddress,
+      "getRiskSnapshot()"
+    );
+    expect(next.calls[snapshotKey]).toBe(
+      applyWrites(entry, first).calls[snapshotKey]
+    );
+
+    const { report, runtime } = runSimulation(next);
+    const [target] = report.targets;
+
+    // Stressed LCR 120% would be YELLOW on a cold start
+    expect(target.risk?.stressedLCR).toBe(12000);
+    expect(target.risk?.systemStatus).toBe(2);
+    expect(decodeReportPayload(runtime.reports[0]).action).toBe("REBALANCE");
+  });
+
+  test("RED holds until LCR clears the RED exit threshold", async () => {
+    const { report, runtime, evmClient } = runSimulation(
+      await fixture("red-hysteresis")
+    );
+    const [entry] = report.targets;
+
+    // Stressed LCR ~103% would be ORANGE on a cold start; the vault already
+    // runs HALT_DEPOSITS, so nothing is written
+    expect(entry.risk?.stressedLCR).toBeGreaterThan(10000);
+    expect(entry.risk?.stressedLCR).toBeLessThan(10500);
+    expect(entry.risk?.systemStatus).toBe(3);
+    expect(entry.outcome).toBe("healthy");
+    expect(runtime.reports).toHaveLength(0);
+    expect(evmClient.writes).toHaveLength(0);
+  });
+
+  test("a first RED tick only halts deposits", async () => {
+    const f = await fixture("red-first-tick");
+    const { outcome, runtime } = runSimulation(f);
+
+    expect(outcome).toBe("action_taken");
+    expect(decodeReportPayload(runtime.reports[0])).toMatchObject({
+      action: "EMERGENCY_PAUSE",
+      severity: 0,
+      redSince: BigInt(f.nowUnixSeconds),
+      unwindAmount: 0n,
+    });
+  });
+
+  test("an hour in RED escalates to unwinding the worst source", async () => {
+    const f = await fixture("red-sustained");
+    const { outcome, runtime } = runSimulation(f);
+
+    expect(outcome).toBe("action_taken");
+    const morpho = f.config.targets[0].sources.find(
+      (s) => s.kind === "morpho-blue"
+    )!;
+    // Capped at the pool's 20,000 USDC of liquidity, not the 500,000 balance
+    expect(decodeReportPayload(runtime.reports[0])).toMatchObject({
+      action: "EMERGENCY_PAUSE",
+      severity: 2,
+      redSince: BigInt(f.nowUnixSeconds - 4000),
+      unwindSource: morpho.address,
+      unwindAmount: 20_000_000_000n,
+    });
+    expect(
+      runtime.logs.some((l) => l.includes("PARTIAL_UNWIND (RED for 4000s"))
+    ).toBe(true);
+  });
+
+  test("a fast utilization rise adds a trend penalty", async () => {
+    const f = await fixture("utilization-spike");
+    const vault = f.config.targets[0].vaultAddress;
+    const scoreLog = (logs: string[]) =>
+      logs.find((l) => l.includes("[aave-v3] risk score"));
+
+    // 70% → 89% in 15 minutes is 7600 bps/h, past the penalty cap
+    const { runtime } = runSimulation(f);
+    expect(scoreLog(runtime.logs)).toBe("  [aave-v3] risk score: 7650/10000");
+    const report = decodeReportPayload(runtime.reports[0]);
+    expect(report.action).toBe("UPDATE_PARAMS");
+    if (report.action !== "UPDATE_PARAMS") return;
+    expect(report.observation.timestamp).toBe(BigInt(f.nowUnixSeconds));
+    expect(report.observation.sources[0].utilizationBps).toBe(8900);
+
+    // The same 89% reading with no history scores point-in-time only
+    const stateless = runSimulation({
+      ...f,
+      calls: { ...f.calls, [callKey(vault, "getRiskObservations()")]: null },
+    });
+    expect(scoreLog(stateless.runtime.logs)).toBe(
+      "  [aave-v3] risk score: 4650/10000"
+    );
+  });
+
+  test("a calm vault still stores an observation every sample period", async () => {
+    const f = await fixture("unchanged-params");
+    const { outcome, runtime } = runSimulation({
+      ...f,
+      nowUnixSeconds: f.nowUnixSeconds + 900,
+    });
+
+    expect(outcome).toBe("action_taken");
+    expect(decodeReportPayload(runtime.reports[0]).action).toBe(
+      "UPDATE_PARAMS"
+    );
+  });
+
+  test("a collateral crash raises Morpho's score before utilization moves", async () => {
+    const f = await fixture("morpho-collateral-crash");
+    const morpho = f.config.targets[0].sources[1].address;
+    const lookbackKey = fixtureKey(
+      morpho,
+      toFunctionSelector("getMarketState()"),
+      LOOKBACK_BLOCK
+    );
+
+    // 10% down against a 14% LLTV buffer outweighs 4 bps of bad debt
+    const { report, runtime } = runSimulation(f);
+    const crashed = report.targets[0].risk!.sources[1];
+    expect(crashed.components.utilization).toBe(437);
+    expect(crashed.components.credit).toBe(7135);
+    expect(crashed.score).toBe(4662);
+    expect(runtime.logs).toContain(
+      "    credit: bad debt 5000000000 (4 bps), collateral -999 bps of a 1400 bps LLTV buffer → 7135"
+    );
+
+    // Without the lookback reading there is nothing to compare against
+    const unreadable = runSimulation({
+      ...f,
+      calls: { ...f.calls, [lookbackKey]: null },
+    });
+    const calm = unreadable.report.targets[0].risk!.sources[1];
+    expect(calm.components.credit).toBe(0);
+    expect(calm.score).toBe(
+      crashed.score -
+        Math.floor((7135 * DEFAULT_RISK_POLICY.weights.credit) / 10000)
+    );
+    expect(unreadable.report.targets[0].risk!.degraded).toBe(false);
+  });
+
+  test("an unreadable market state scores maximum credit risk", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const morpho = f.config.targets[0].sources[1].address;
+    const { outcome, report } = runSimulation({
+      ...f,
+      calls: { ...f.calls, [callKey(morpho, "getMarketState()")]: null },
+    });
+
+    expect(outcome).toBe("action_taken_degraded");
+    const entry = report.targets[0];
+    expect(entry.risk?.sources[1].components.credit).toBe(10000);
+    expect(entry.risk?.unknownMetrics).toEqual([`${morpho}.market`]);
+    expect(entry.inputs?.sources[1].market).toBeUndefined();
+  });
+
+  test("a frozen reserve forces Aave to RED and a flat index flags its yield", async () => {
+    const f = await fixture("aave-reserve-frozen");
+    const { outcome, report, runtime } = runSimulation(f);
+
+    expect(outcome).toBe("action_taken");
+    const aave = report.targets[0].risk!.sources[0];
+    expect(aave.score).toBe(10000);
+    expect(aave.haircutBps).toBe(7500);
+    expect(aave.reserve).toEqual({
+      flags: ["frozen"],
+      supplyCapHeadroomBps: 4000,
+      yieldStalled: true,
+    });
+    const payload = decodeReportPayload(runtime.reports[0]);
+    expect(
+      payload.action === "UPDATE_PARAMS" && payload.params[0].riskTier
+    ).toBe(3);
+    expect(runtime.logs).toContain(
+      "    [WARN] yield anomaly: liquidity index has not grown in 1800 blocks"
+    );
+  });
+
+  test("a supply cap with no headroom left forces Aave to RED", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const aave = f.config.targets[0].sources[0].address;
+    const full = encodeFunctionResult({
+      abi: AAVE_V3_YIELD_SOURCE_ABI,
+      functionName: "getReserveState",
+      result: {
+        active: true,
+        frozen: false,
+        paused: false,
+        supplyCap: 30_000_000_000_000n,
+        totalSupplied: 29_990_000_000_000n,
+        liquidityIndex: 10n ** 27n,
+      },
+    });
+    const { report } = runSimulation({
+      ...f,
+      calls: { ...f.calls, [callKey(aave, "getReserveState()")]: full },
+    });
+
+    // 3 bps of the cap left is under the 50 bps policy minimum
+    const source = report.targets[0].risk!.sources[0];
+    expect(source.reserve?.flags).toEqual(["supply cap"]);
+    expect(source.reserve?.supplyCapHeadroomBps).toBe(3);
+    expect(source.score).toBe(10000);
+  });
+
+  test("an unreadable reserve state is degraded but forces nothing", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const aave = f.config.targets[0].sources[0].address;
+    const healthy = runSimulation(f).report.targets[0].risk!;
+    const { outcome, report } = runSimulation({
+      ...f,
+      calls: { ...f.calls, [callKey(aave, "getReserveState()")]: null },
+    });
+
+    expect(outcome).toBe("action_taken_degraded");
+    const entry = report.targets[0];
+    expect(entry.risk?.unknownMetrics).toEqual([`${aave}.reserve`]);
+    expect(entry.risk?.sources[0].score).toBe(healthy.sources[0].score);
+    expect(entry.risk?.sources[0].reserve?.flags).toEqual([]);
+    expect(entry.inputs?.sources[0].reserve).toBeUndefined();
+  });
+
+  test("current reads go out in one Multicall3 batch at the finalized block", async () => {
+    const { evmClient } = runSimulation(await fixture("base-sepolia-healthy"));
+
+    // The second batch is the lookback reading of the Morpho market and the
+    // Aave reserve
+    expect(evmClient.batches).toEqual([
+      { block: "finalized", size: expect.any(Number) },
+      { block: LOOKBACK_BLOCK, size: 2 },
+    ]);
+  });
+
+  test("an unconfigured source is read in a second batch pinned to the first", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const { outcome, runtime, evmClient } = runSimulation({
+      ...f,
+      config: {
+        ...f.config,
+        targets: [
+          {
+            ...f.config.targets[0],
+            sources: f.config.targets[0].sources.filter(
+              (s) => s.kind !== "morpho-blue"
+            ),
+          },
+        ],
+      },
+    });
+
+    expect(outcome).toBe("action_taken");
+    expect(evmClient.batches.map((b) => b.block)).toEqual([
+      "finalized",
+      f.blockNumber,
+      LOOKBACK_BLOCK,
+    ]);
+    expect(
+      runtime.logs.some((l) => l.includes("has no configured adapter"))
+    ).toBe(true);
+  });
+
+  test("a reverted source metric still reports, marked degraded", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const morpho = f.config.targets[0].sources.find(
+      (s) => s.kind === "morpho-blue"
+    )!.address;
+    const { outcome, runtime } = runSimulation({
+      ...f,
+      calls: {
+        ...f.calls,
+        [callKey(morpho, "getMarketUtilization()")]: null,
+      },
+    });
+
+    expect(outcome).toBe("action_taken_degraded");
+    expect(runtime.logs).toContain("    Utilization: unknown");
+    expect(runtime.logs).toContain(`    ${morpho}.utilizationBps`);
+
+    const report = decodeReportPayload(runtime.reports[0]);
+    expect(report.degraded).toBe(true);
+  });
+
+  test("a reverted required vault read fails the target", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const calls = {
+      ...f.calls,
+      [callKey(f.config.targets[0].vaultAddress, "totalAssets()")]: null,
+    };
+    const { outcome, runtime } = runSimulation({ ...f, calls });
+
+    expect(outcome).toBe("error_exception");
+    expect(runtime.logs).toContain(
+      "[ERROR] Failed to read StreamVault.totalAssets(): totalAssets() reverted"
+    );
+    expect(runtime.reports).toHaveLength(0);
+  });
+
+  test("calls outside the fixture fail loudly", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const { [Object.keys(f.calls)[0]]: _dropped, ...calls } = f.calls;
+
+    expect(() => runSimulation({ ...f, calls })).toThrow(MissingFixtureError);
+  });
+});
+
+describe("run report", () => {
+  test("the returned report is also the run's last log line", async () => {
+    const { report, runtime } = runSimulation(
+      await fixture("morpho-liquidity-crunch")
+    );
+
+    expect(JSON.parse(runtime.logs.at(-1)!)).toEqual(report);
+    expect(report).toMatchObject({
+      schemaVersion: RUN_REPORT_SCHEMA_VERSION,
+      trigger: { kind: "cron" },
+    });
+  });
+
+  test("a target entry covers inputs, score components and the write", async () => {
+    const f = await fixture("morpho-liquidity-crunch");
+    const { report, runtime } = runSimulation(f);
+    const [entry] = report.targets;
+
+    expect(entry.outcome).toBe("action_taken");
+    expect(entry.inputs?.pendingWithdrawals).toBe("340000000000");
+    expect(entry.risk?.sources[1]).toMatchObject({
+      kind: "morpho-blue",
+      score: 5075,
+      components: {
+        utilization: 10000,
+        liquidity: 10000,
+        oracle: 0,
+        concentration: 5000,
+        trend: 0,
+      },
+      maxConcentrationBps: 549,
+    });
+    expect(entry.risk).toMatchObject({
+      stressedLCR: 11171,
+      action: "REBALANCE",
+    });
+    expect(entry.payloadHash).toBe(keccak256(runtime.reports[0] as Hex));
+    expect(entry.txHash).toBe(`0x${"ab".repeat(32)}`);
+  });
+
+  test("an unknown metric is left out rather than null", async () => {
+    const f = await fixture("base-sepolia-healthy");
+    const morpho = f.config.targets[0].sources.find(
+      (s) => s.kind === "morpho-blue"
+    )!.address;
+    const { report } = runSimulation({
+      ...f,
+      calls: {
+        ...f.calls,
+        [callKey(morpho, "getMarketUtilization()")]: null,
+      },
+    });
+    const [entry] = report.targets;
+
+    expect(entry.inputs?.sources[1]).not.toHaveProperty("utilizationBps");
+    expect(entry.risk?.unknownMetrics).toEqual([`${morpho}.utilizationBps`]);
+  });
+
+  test("a failed write records its error and no tx hash", async () => {
+    const { report } = runSimulation(await fixture("write-reverted"));
+    const [entry] = report.targets;
+
+    expect(entry.outcome).toBe("error_tx_failed");
+    expect(entry.error).toContain("execution reverted");
+    expect(entry.txHash).toBeUndefined();
+  });
+});
+
+describe("alerts", () => {
+  const PAGER = "https://pager.example.com/hook";
+  const CHAT = "https://chat.example.com/hook";
+
+  // Pages on critical alerts only, posts everything from warning up to chat
+  const withAlerts = (
+    f: ChainFixture,
+    dedupe: "status-change" | "every-run" = "status-change"
+  ): ChainFixture => ({
+    ...f,
+    config: {
+      ...f.config,
+      alerts: {
+        endpoints: [
+          { url: PAGER, minSeverity: "critical" },
+          { url: CHAT, minSeverity: "warning" },
+        ],
+        dedupe,
+      },
+    },
+  });
+
+  test("entering RED posts a critical alert to every endpoint", async () => {
+    const f = withAlerts(await fixture("red-first-tick"));
+    const { report, httpClient } = runSimulation(f);
+    const [entry] = report.targets;
+
+    expect(httpClient.requests.map((r) => [r.url, r.method])).toEqual([
+      [PAGER, "POST"],
+      [CHAT, "POST"],
+    ]);
+    expect(httpClient.requests[0].alert).toEqual({
+      severity: "critical",
+      kind: "status",
+      vault: f.config.targets[0].vaultAddress,
+      chain: "ethereum-testnet-sepolia-base-1",
+      status: { to: "RED" },
+      action: "EMERGENCY_PAUSE",
+      outcome: "action_taken",
+      stressedLCR: entry.risk!.stressedLCR,
+      txHash: entry.txHash!,
+      timestamp: entry.finishedAt,
+    });
+  });
+
+  test("a held ORANGE alerts only when every run is asked for", async () => {
+    const f = await fixture("orange-hysteresis");
+
+    expect(runSimulation(withAlerts(f)).httpClient.requests).toEqual([]);
+
+    const { httpClient } = runSimulation(withAlerts(f, "every-run"));
+    expect(httpClient.requests.map((r) => r.url)).toEqual([CHAT]);
+    expect(httpClient.requests[0].alert).toMatchObject({
+      severity: "warning",
+      status: { from: "ORANGE", to: "ORANGE" },
+      action: "REBALANCE",
+    });
+  });
+
+  test("two ORANGE rebalance ticks in a row alert once", async () => {
+    const f = withAlerts(await fixture("orange-entry"));
+    const first = runSimulation(f);
+    const second = runSimulation({
+      ...applyWrites(f, first),
+      nowUnixSeconds: f.nowUnixSeconds + 300,
+    });
+
+    for (const { runtime } of [first, second]) {
+      expect(decodeReportPayload(runtime.reports[0]).action).toBe("REBALANCE");
+    }
+    expect(first.httpClient.requests.map((r) => r.alert.status)).toEqual([
+      { to: "ORANGE" },
+    ]);
+    expect(second.httpClient.requests).toEqual([]);
+  });
+
+  test("a failed write alerts with its error, even from GREEN", async () => {
+    const { httpClient } = runSimulation(
+      withAlerts(await fixture("write-reverted"))
+    );
+
+    expect(httpClient.requests.map((r) => r.url)).toEqual([PAGER, CHAT]);
+    expect(httpClient.requests[0].alert).toMatchObject({
+      severity: "critical",
+      kind: "tx_failed",
+      status: { to: "GREEN" },
+      outcome: "error_tx_failed",
+    });
+    expect(httpClient.requests[0].alert.error).toContain("execution reverted");
+    expect(httpClient.requests[0].alert.txHash).toBeUndefined();
+  });
+
+  test("a healthy run sends nothing", async () => {
+    const { httpClient } = runSimulation(
+      withAlerts(await fixture("base-sepolia-healthy"), "every-run")
+    );
+
+    expect(httpClient.requests).toEqual([]);
+  });
+
+  test("a failing webhook is logged and never blocks the write", async () => {
+    const f = withAlerts(await fixture("red-first-tick"));
+    const { outcome, runtime, evmClient, httpClient } = runSimulation({
+      ...f,
+      http: { [PAGER]: null, [CHAT]: 503 },
+    });
+
+    expect(outcome).toBe("action_taken");
+    expect(evmClient.writes).toHaveLength(1);
+    expect(httpClient.requests).toHaveLength(2);
+    expect(runtime.logs).toContain(
+      `  [WARN] Alert to ${PAGER} failed: connection refused: ${PAGER}`
+    );
+    expect(runtime.logs).toContain(
+      `  [WARN] Alert to ${CHAT} answered HTTP 503`
+    );
+  });
+});
+
+describe("multi-target runs", () => {
+  const SECOND_VAULT = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+
+  // Adds a second target whose vault answers every call like the first one
+  const withSecondVault = (f: ChainFixture): ChainFixture => {
+    const [first] = f.config.targets;
+    const prefix = `${first.vaultAddress.toLowerCase()}:`;
+    const copied = Object.entries(f.calls)
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, value]) => [
+        `${SECOND_VAULT.toLowerCase()}:${key.slice(prefix.length)}`,
+        value,
+      ]);
+    return {
+      ...f,
+      config: {
+        ...f.config,
+        targets: [
+          ...f.config.targets,
+          { ...first, vaultAddress: SECOND_VAULT },
+        ],
+      },
+      calls: { ...f.calls, ...Object.fromEntries(copied) },
+    };
+  };
+
+  test("each target is evaluated and reported on its own", async () => {
+    const f = withSecondVault(await fixture("base-sepolia-healthy"));
+    const { outcome, runtime, evmClient } = runSimulation(f);
+
+    expect(outcome).toBe("action_taken,action_taken");
+    expect(runtime.reports).toHaveLength(2);
+    expect(evmClient.writes.map((w) => w.receiver)).toEqual([
+      f.config.targets[0].vaultAddress,
+      SECOND_VAULT,
+    ]);
+  });
+
+  test("a failing target does not block the others", async () => {
+    const f = withSecondVault(await fixture("base-sepolia-healthy"));
+    const { outcome, runtime, evmClient } = runSimulation({
+      ...f,
+      calls: {
+        ...f.calls,
+        [callKey(f.config.targets[0].vaultAddress, "totalAssets()")]: null,
+      },
+    });
+
+    expect(outcome).toBe("error_exception,action_taken");
+    expect(evmClient.writes.map((w) => w.receiver)).toEqual([SECOND_VAULT]);
+    expect(runtime.logs).toContain(
+      `  ${f.config.targets[0].vaultAddress} on ethereum-testnet-sepolia-base-1: error_exception`
+    );
+    expect(runtime.logs).toContain(
+      `  ${SECOND_VAULT} on ethereum-testnet-sepolia-base-1: action_taken`
+    );
+  });
+});
+
+describe("onVaultEvent replay", () => {
+  test("a withdrawal request runs the pipeline immediately", async () => {
+    const f = await fixture("morpho-liquidity-crunch");
+    const trigger = withdrawLog(3n, 1000);
+    const { outcome, runtime } = runSimulation(
+      { ...f, logs: [trigger] },
+      trigger
+    );
+
+    expect(outcome).toBe("action_taken");
+    expect(
+      runtime.logs.some((l) =>
+        l.startsWith("  Trigger: WithdrawRequested at block 1000")
+      )
+    ).toBe(true);
+    expect(decodeReportPayload(runtime.reports[0]).action).toBe("REBALANCE");
+  });
+
+  test("a later event in the same debounce window is dropped", async () => {
+    const f = await fixture("morpho-liquidity-crunch");
+    const trigger = withdrawLog(3n, 1010);
+    const { outcome, runtime } = runSimulation(
+      { ...f, logs: [withdrawLog(3n, 995), trigger] },
+      trigger
+    );
+
+    expect(outcome).toBe("debounced");
+    expect(runtime.reports).toHaveLength(0);
+  });
+
+  test("a larger later withdrawal in the same window runs again", async () => {
+    const f = await fixture("morpho-liquidity-crunch");
+    const trigger = withdrawLog(3n, 1010, 0, 600_000n * 10n ** 18n);
+    const { outcome, runtime } = runSimulation(
+      { ...f, logs: [withdrawLog(3n, 995), trigger] },
+      trigger
+    );
+
+    expect(outcome).toBe("action_taken");
+    expect(runtime.reports).toHaveLength(1);
+  });
+
+  test("requests debounced in a window add up until they outgrow the last run", async () => {
+    const f = await fixture("morpho-liquidity-crunch");
+    const trigger = withdrawLog(3n, 1010);
+    const { outcome } = runSimulation(
+      {
+        ...f,
+        // 995 runs, 1000 is debounced, 1010 brings 500k after 250k scored
+        logs: [withdrawLog(3n, 995), withdrawLog(3n, 1000), trigger],
+      },
+      trigger
+    );
+
+    expect(outcome).toBe("action_taken");
+  });
+
+  test("a log from another contract does not debounce", async () => {
+    const f = await fixture("morpho-liquidity-crunch");
+    const trigger = withdrawLog(3n, 1010);
+    const { outcome } = runSimulation(
+      {
+        ...f,
+        logs: [
+          {
+            ...withdrawLog(3n, 995),
+            address: "0x000000000000000000000000000000000000dEaD",
+          },
+          trigger,
+        ],
+      },
+      trigger
+    );
+
+    expect(outcome).toBe("action_taken");
+  });
+
+  test("an event in the previous window does not debounce", async () => {
+    const f = await fixture("morpho-liquidity-crunch");
+    const trigger = withdrawLog(3n, 1010);
+    const { outcome } = runSimulation(
+      { ...f, logs: [withdrawLog(3n, 985), trigger] },
+      trigger
+    );
+
+    expect(outcome).toBe("action_taken");
+  });
+
+  test("a request for a settled epoch is skipped", async () => {
+    const f = await fixture("morpho-liquidity-crunch");
+    const trigger = withdrawLog(2n, 1000);
+    const { outcome, runtime } = runSimulation(
+      { ...f, logs: [trigger] },
+      trigger
+    );
+
+    expect(outcome).toBe("skipped_stale_epoch");
+    expect(runtime.reports).toHaveLength(0);
+  });
+
+  test("an event newer than the finalized block is scored at its own block", async () => {
+    const f = await fixture("morpho-liquidity-crunch");
+    const vault = f.config.targets[0].vaultAddress;
+    const eventBlock = 28_400_012;
+    const lookbackBlock = String(
+      eventBlock - DEFAULT_RISK_POLICY.credit.lookbackBlocks
+    );
+    // The chain at the event block: the same state, plus the new request
+    const atEventBlock = Object.entries(f.calls).map(([key, value]) => [
+      key.endsWith(`@${LOOKBACK_BLOCK}`)
+        ? key.replace(`@${LOOKBACK_BLOCK}`, `@${lookbackBlock}`)
+        : `${key}@${eventBlock}`,
+      value,
+    ]);
+    const pendingKey = callKey(vault, "getPendingEpochWithdrawals()");
+    const trigger = withdrawLog(3n, eventBlock);
+    const { report, evmClient } = runSimulation(
+      {
+        ...f,
+        calls: {
+          ...f.calls,
+          ...Object.fromEntries(atEventBlock),
+          // Shares: the fixture's vault prices 1,000 shares per asset unit
+          [`${pendingKey}@${eventBlock}`]: encodeAbiParameters(
+            [{ type: "uint256" }],
+            [500_000_000_000_000n]
+          ),
+        },
+        logs: [trigger],
+      },
+      trigger
+    );
+    const [entry] = report.targets;
+
+    expect(evmClient.batches.map((b) => b.block)).toEqual([
+      "finalized",
+      String(eventBlock),
+      lookbackBlock,
+    ]);
+    expect(entry.inputs?.blockNumber).toBe(String(eventBlock));
+    expect(entry.inputs?.pendingWithdrawals).toBe("500000000000");
+    expect(entry.outcome).toBe("action_taken");
+  });
+});
@@ -0,0 +1,620 @@
+/**
+ * Offline Simulation Harness
+ *
+ * Runs the real risk-check pipeline (readers → risk model → report → write)
+ * against recorded chain fixtures instead of a live DON. A fake EVMClient
+ * answers callContract() from the fixture, keyed by target address + calldata,
+ * and a fake Runtime records every report() / writeReport() call.
+ *
+ * Multicall3 aggregate3() batches are unpacked and each sub-call answered on
+ * its own, so fixtures stay a flat map of individual contract calls.
+ * filterLogs() is answered from the fixture's recorded vault logs, and a
+ * fake HTTPClient stands in for the alert webhooks, recording every POST.
+ *
+ * No network access — safe for CI and for replaying incidents.
+ */
+
+import {
+  Report,
+  TxStatus,
+  type CronPayload,
+  type EVMLog,
+  type ReportRequestJson,
+  type Runtime,
+  type WriteCreReportRequestJson,
+} from "@chainlink/cre-sdk";
+import type {
+  EVM_PB,
+  HTTP_CLIENT_PB,
+  VALUES_PB,
+} from "@chainlink/cre-sdk/pb";
+import {
+  decodeFunctionData,
+  decodeFunctionResult,
+  encodeFunctionData,
+  encodeFunctionResult,
+  type Hex,
+} from "viem";
+import { RISK_RECEIVER_ABI } from "../bindings/contracts";
+import type { Config } from "../config";
+import { MULTICALL3_ABI, MULTICALL3_ADDRESS } from "../multicall";
+import type { EVMClient } from "../protocol-readers";
+import type { HTTPClient, RiskAlert, SendRequester } from "../alerts";
+import { decodeReportPayload } from "../report-decoder";
+import { onRiskCheck, onVaultEvent } from "../risk-check";
+import type { RiskRunReport } from "../run-report";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Fixture Format
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type ChainFixture = {
+  /** Short human-readable label, e.g. "base-sepolia-healthy" */
+  name: string;
+  description: string;
+  /** Block the calls were answered at (decimal string) */
+  blockNumber: string;
+  /** Timestamp runtime.now() returns during the replay */
+  nowUnixSeconds: number;
+  /** Workflow config the pipeline runs with */
+  config: Config;
+  /**
+   * callContract() responses: "<to lowercase>:<calldata lowercase>" → return
+   * data hex, or null for a call that reverts. A call pinned to an earlier
+   * block than blockNumber is keyed with an "@<block>" suffix.
+   */
+  calls: Record<string, string | null>;
+  /** Logs filterLogs() can return */
+  logs?: FixtureLog[];
+  /** Outcome writeReport() reports back (defaults to SUCCESS) */
+  writeReport?: {
+    txStatus: "SUCCESS" | "REVERTED" | "FATAL";
+    errorMessage?: string;
+  };
+  /**
+   * Status code each alert webhook answers, by URL (defaults to 200), or
+   * null for a request that fails outright
+   */
+  http?: Record<string, number | null>;
+};
+
+export type FixtureLog = {
+  /** Contract that emitted the log (defaults to the first target's vault) */
+  address?: string;
+  /** Block the log was emitted in (decimal string) */
+  blockNumber: string;
+  /** Index of the log within its block */
+  index: number;
+  topics: string[];
+  data: string;
+};
+
+export function fixtureKey(
+  to: string,
+  calldata: string,
+  block?: string
+): string {
+  const key = `${to.toLowerCase()}:${calldata.toLowerCase()}`;
+  return block === undefined ? key : `${key}@${block}`;
+}
+
+export async function loadFixture(path: string): Promise<ChainFixture> {
+  return (await Bun.file(path).json()) as ChainFixture;
+}
+
+/** Thrown when the pipeline makes a call the fixture has no answer for */
+export class MissingFixtureError extends Error {
+  constructor(
+    readonly to: string,
+    readonly calldata: string,
+    readonly block?: string // set for a call pinned to an earlier block
+  ) {
+    super(
+      `No fixture response for call to ${to} with data ${calldata}${block === undefined ? "" : ` at block ${block}`}`
+    );
+    this.name = "MissingFixtureError";
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Fake EVMClient
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type RecordedWrite = {
+  receiver: string;
+  gasLimit?: string;
+  report: WriteCreReportRequestJson["report"];
+};
+
+function toHex(value: string | Uint8Array | undefined): string {
+  if (value === undefined) return "0x";
+  const bytes =
+    typeof value === "string" ? Buffer.from(value, "base64") : Buffer.from(value);
+  return `0x${bytes.toString("hex")}`;
+}
+
+export type RecordedBatch = {
+  /** Block the batch was pinned to, or "finalized" */
+  block: string;
+  /** Number of sub-calls, the block-number probe included */
+  size: number;
+};
+
+const MULTICALL3_KEY = MULTICALL3_ADDRESS.toLowerCase();
+const GET_BLOCK_NUMBER_CALLDATA = encodeFunctionData({
+  abi: MULTICALL3_ABI,
+  functionName: "getBlockNumber",
+});
+
+/** Proto BigInt { absVal, sign } → block number, or the SDK's sentinel tag */
+function blockLabel(blockNumber: VALUES_PB.BigIntJson | undefined): string {
+  const hex = toHex(blockNumber?.absVal);
+  const magnitude = BigInt(hex === "0x" ? 0 : hex);
+  if (BigInt(blockNumber?.sign ?? 0) < 0n) {
+    return magnitude === 3n ? "finalized" : "latest";
+  }
+  return magnitude.toString();
+}
+
+export class FixtureEVMClient implements EVMClient {
+  /** Every individual contract call, sub-calls of a batch included */
+  readonly calls: { to: string; calldata: string }[] = [];
+  readonly batches: RecordedBatch[] = [];
+  readonly writes: RecordedWrite[] = [];
+  /**
+   * First call the fixture lacks. The pipeline catches a throwing target so
+   * the others still run; runSimulation() rethrows this afterwards.
+   */
+  missing?: MissingFixtureError;
+
+  constructor(private readonly fixture: ChainFixture) {}
+
+  private miss(to: string, calldata: string, block?: string): never {
+    this.missing ??= new MissingFixtureError(to, calldata, block);
+    throw this.missing;
+  }
+
+  // The workflow passes the JSON shapes: base64 bytes, string sign
+  callContract(_runtime: unknown, input: EVM_PB.CallContractRequestJson) {
+    const to = toHex(input.call?.to);
+    const calldata = toHex(input.call?.data);
+    const reply = (data: Uint8Array): EVM_PB.CallContractReply => ({
+      $typeName: "capabilities.blockchain.evm.v1alpha.CallContractReply",
+      data,
+    });
+
+    if (to.toLowerCase() === MULTICALL3_KEY) {
+      return { result: () => reply(this.aggregate3(calldata, input)) };
+    }
+
+    this.calls.push({ to, calldata });
+    return {
+      result: () =>
+        reply(Buffer.from(this.answer(to, calldata).slice(2), "hex")),
+    };
+  }
+
+  private answer(to: string, calldata: string): string {
+    const response = this.fixture.calls[fixtureKey(to, calldata)];
+    if (response === undefined) this.miss(to, calldata);
+    if (response === null) throw new Error(`Call to ${to} reverted`);
+    return response;
+  }
+
+  /** Answers each sub-call of a Multicall3 aggregate3() from the fixture */
+  private aggregate3(
+    calldata: string,
+    input: EVM_PB.CallContractRequestJson
+  ): Buffer {
+    const { args } = decodeFunctionData({
+      abi: MULTICALL3_ABI,
+      data: calldata as Hex,
+    });
+    const subCalls = (args?.[0] ?? []) as readonly {
+      target: Hex;
+      callData: Hex;
+    }[];
+    const block = blockLabel(input.blockNumber);
+    this.batches.push({ block, size: subCalls.length });
+    // Calls at the fixture's own block share the plain key
+    const pinnedEarlier =
+      block !== "finalized" && block !== this.fixture.blockNumber
+        ? block
+        : undefined;
+
+    const returnData = subCalls.map(({ target, callData }) => {
+      if (
+        target.toLowerCase() === MULTICALL3_KEY &&
+        callData === GET_BLOCK_NUMBER_CALLDATA
+      ) {
+        return {
+          success: true,
+          returnData: encodeFunctionResult({
+            abi: MULTICALL3_ABI,
+            functionName: "getBlockNumber",
+            result: BigInt(this.fixture.blockNumber),
+          }),
+        };
+      }
+
+      this.calls.push({ to: target, calldata: callData });
+      const response =
+        this.fixture.calls[fixtureKey(target, callData, pinnedEarlier)];
+      if (response === undefined) this.miss(target, callData, pinnedEarlier);
+      return response === null
+        ? { success: false, returnData: "0x" as Hex }
+        : { success: true, returnData: response as Hex };
+    });
+
+    const encoded = encodeFunctionResult({
+      abi: MULTICALL3_ABI,
+      functionName: "aggregate3",
+      result: returnData,
+    });
+    return Buffer.from(encoded.slice(2), "hex");
+  }
+
+  /**
+   * Fixture logs from the queried addresses in [fromBlock, toBlock] whose
+   * topic0 matches the filter
+   */
+  filterLogs(_runtime: unknown, input: EVM_PB.FilterLogsRequestJson) {
+    const query = input.filterQuery ?? {};
+    const from = BigInt(blockLabel(query.fromBlock));
+    const to = BigInt(blockLabel(query.toBlock));
+    const addresses = (query.addresses ?? []).map((a) =>
+      toHex(a).toLowerCase()
+    );
+    const topics = (query.topics?.[0]?.topic ?? []).map((t) =>
+      toHex(t).toLowerCase()
+    );
+    const logs = (this.fixture.logs ?? [])
+      .map((log) => ({
+        address: log.address ?? this.fixture.config.targets[0].vaultAddress,
+        log,
+      }))
+      .filter(({ address, log }) => {
+        const block = BigInt(log.blockNumber);
+        return (
+          block >= from &&
+          block <= to &&
+          (addresses.length === 0 ||
+            addresses.includes(address.toLowerCase())) &&
+          (topics.length === 0 || topics.includes(log.topics[0].toLowerCase()))
+        );
+      });
+    return {
+      result: (): EVM_PB.FilterLogsReply => ({
+        $typeName: "capabilities.blockchain.evm.v1alpha.FilterLogsReply",
+        logs: logs.map(({ address, log }) => toEvmLog(address, log)),
+      }),
+    };
+  }
+
+  writeReport(_runtime: unknown, input: WriteCreReportRequestJson) {
+    this.writes.push({
+      receiver: input.receiver,
+      gasLimit: input.gasConfig?.gasLimit,
+      report: input.report,
+    });
+
+    const outcome = this.fixture.writeReport ?? { txStatus: "SUCCESS" };
+    return {
+      result: (): EVM_PB.WriteReportReply => ({
+        $typeName: "capabilities.blockchain.evm.v1alpha.WriteReportReply",
+        txStatus: TxStatus[outcome.txStatus],
+        errorMessage: outcome.errorMessage,
+        txHash:
+          outcome.txStatus === "SUCCESS" ? new Uint8Array(32).fill(0xab) : undefined,
+      }),
+    };
+  }
+}
+
+/** Builds the log trigger payload the DON would deliver for a vault log */
+export function toEvmLog(vaultAddress: string, log: FixtureLog): EVMLog {
+  const bytes = (hex: string) =>
+    new Uint8Array(Buffer.from(hex.slice(2), "hex"));
+  const block = BigInt(log.blockNumber);
+  return {
+    $typeName: "capabilities.blockchain.evm.v1alpha.Log",
+    address: bytes(vaultAddress),
+    topics: log.topics.map(bytes),
+    txHash: new Uint8Array(32),
+    blockHash: new Uint8Array(32),
+    data: bytes(log.data),
+    eventSig: bytes(log.topics[0]),
+    blockNumber: {
+      $typeName: "values.v1.BigInt",
+      absVal: bytes(`0x${block.toString(16).padStart(16, "0")}`),
+      sign: 1n,
+    },
+    txIndex: 0,
+    index: log.index,
+    removed: false,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Fake HTTPClient
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type RecordedRequest = {
+  url: string;
+  method?: string;
+  /** Decoded JSON body */
+  alert: RiskAlert;
+};
+
+export class FixtureHTTPClient implements HTTPClient {
+  readonly requests: RecordedRequest[] = [];
+
+  constructor(private readonly fixture: ChainFixture) {}
+
+  /** Runs `fn` once, as a single node, with a requester answered from the fixture */
+  sendRequest<TArgs extends unknown[], TOutput>(
+    _runtime: unknown,
+    fn: (requester: SendRequester, ...args: TArgs) => TOutput,
+    _aggregation: unknown
+  ): (...args: TArgs) => { result: () => TOutput } {
+    const requester: SendRequester = {
+      sendRequest: (input) => {
+        // The workflow sends the JSON shape: a base64 body
+        const request = input as HTTP_CLIENT_PB.RequestJson;
+        const url = request.url ?? "";
+        this.requests.push({
+          url,
+          method: request.method,
+          alert: JSON.parse(
+            Buffer.from(request.body ?? "", "base64").toString()
+          ),
+        });
+        const http = this.fixture.http ?? {};
+        const statusCode = url in http ? http[url] : 200;
+        return {
+          result: (): HTTP_CLIENT_PB.Response => {
+            if (statusCode === null) {
+              throw new Error(`connection refused: ${url}`);
+            }
+            return {
+              $typeName: "capabilities.networking.http.v1alpha.Response",
+              statusCode,
+              headers: {},
+              multiHeaders: {},
+              body: new Uint8Array(),
+            };
+          },
+        };
+      },
+    };
+    return (...args) => ({
+      result: () => fn(requester, ...args),
+    });
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Fake Runtime
+// ═══════════════════════════════════════════════════════════════════════════
+
+export class FixtureRuntime implements Runtime<Config> {
+  readonly logs: string[] = [];
+  /** Hex payloads passed to runtime.report(), in call order */
+  readonly reports: string[] = [];
+
+  constructor(
+    readonly config: Config,
+    private readonly nowUnixSeconds: number
+  ) {}
+
+  now(): Date {
+    return new Date(this.nowUnixSeconds * 1000);
+  }
+
+  log(message: string): void {
+    this.logs.push(message);
+  }
+
+  // Unsigned: the fake forwarder never checks the signatures
+  report(input: ReportRequestJson) {
+    this.reports.push(toHex(input.encodedPayload));
+    return {
+      result: () => new Report({ rawReport: input.encodedPayload }),
+    };
+  }
+
+  callCapability(): never {
+    throw new Error("FixtureRuntime does not support callCapability()");
+  }
+
+  runInNodeMode(): never {
+    throw new Error("FixtureRuntime does not support runInNodeMode()");
+  }
+
+  getSecret(): never {
+    throw new Error("FixtureRuntime does not support getSecret()");
+  }
+
+  getSecrets(): never {
+    throw new Error("FixtureRuntime does not support getSecrets()");
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Replay
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type SimulationResult = {
+  /** onRiskCheck() / onVaultEvent() return value */
+  report: RiskRunReport;
+  /** Every target's outcome, in config order, joined by commas */
+  outcome: string;
+  runtime: FixtureRuntime;
+  evmClient: FixtureEVMClient;
+  httpClient: FixtureHTTPClient;
+};
+
+/** The cron trigger payload for a tick scheduled at the fixture's time */
+function cronPayload(fixture: ChainFixture): CronPayload {
+  return {
+    $typeName: "capabilities.scheduler.cron.v1.Payload",
+    scheduledExecutionTime: {
+      $typeName: "google.protobuf.Timestamp",
+      seconds: BigInt(fixture.nowUnixSeconds),
+      nanos: 0,
+    },
+  };
+}
+
+/**
+ * Runs one onRiskCheck() tick against a fixture, or one onVaultEvent() run
+ * for the first target when a triggering log is given. Every target reads
+ * from the same call map, keyed by contract address.
+ */
+export function runSimulation(
+  fixture: ChainFixture,
+  trigger?: FixtureLog
+): SimulationResult {
+  const runtime = new FixtureRuntime(fixture.config, fixture.nowUnixSeconds);
+  const evmClient = new FixtureEVMClient(fixture);
+  const httpClient = new FixtureHTTPClient(fixture);
+  const deps = {
+    createEvmClient: () => evmClient,
+    createHttpClient: () => httpClient,
+  };
+
+  const target = fixture.config.targets[0];
+  const report = trigger
+    ? onVaultEvent(
+        runtime,
+        toEvmLog(target.vaultAddress, trigger),
+        target,
+        deps
+      )
+    : onRiskCheck(runtime, cronPayload(fixture), deps);
+  if (evmClient.missing) throw evmClient.missing;
+
+  const outcome = report.targets.map((t) => t.outcome).join(",");
+  return { report, outcome, runtime, evmClient, httpClient };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Written State
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** RiskReceiverLib.MAX_OBSERVATIONS: the vault keeps the newest 24 */
+const MAX_OBSERVATIONS = 24;
+
+type ReceiverView =
+  | "getRiskSnapshot"
+  | "getEmergencyState"
+  | "getRiskObservations";
+
+/**
+ * The fixture as its vaults would answer once a run's writes landed, so a
+ * second tick can be replayed against them. Mirrors RiskReceiverLib: an
+ * EMERGENCY_PAUSE records its rung and RED start; any other report ends a
+ * RED streak and stores its snapshot, and an UPDATE_PARAMS report also
+ * stores each source's params, stamped with the block time, and an
+ * observation. Balances do not move, and nothing is applied when the
+ * fixture's writes revert.
+ */
+export function applyWrites(
+  fixture: ChainFixture,
+  result: SimulationResult
+): ChainFixture {
+  const calls = { ...fixture.calls };
+  if ((fixture.writeReport?.txStatus ?? "SUCCESS") !== "SUCCESS") {
+    return { ...fixture, calls };
+  }
+
+  const store = (vault: string, functionName: ReceiverView, data: Hex) => {
+    calls[callKey(vault, functionName)] = data;
+  };
+  const emergencyState = (severity: number, redSince: bigint) =>
+    encodeFunctionResult({
+      abi: RISK_RECEIVER_ABI,
+      functionName: "getEmergencyState",
+      result: [severity, redSince],
+    });
+
+  result.evmClient.writes.forEach((write, i) => {
+    const vault = write.receiver;
+    const report = decodeReportPayload(result.runtime.reports[i]);
+    if (report.action === "EMERGENCY_PAUSE") {
+      store(
+        vault,
+        "getEmergencyState",
+        emergencyState(report.severity, report.redSince)
+      );
+      return;
+    }
+    store(vault, "getEmergencyState", emergencyState(0, 0n));
+    store(
+      vault,
+      "getRiskSnapshot",
+      encodeFunctionResult({
+        abi: RISK_RECEIVER_ABI,
+        functionName: "getRiskSnapshot",
+        result: report.snapshot,
+      })
+    );
+    if (report.action !== "UPDATE_PARAMS") return;
+
+    report.sources.forEach((source, j) => {
+      const key = fixtureKey(
+        vault,
+        encodeFunctionData({
+          abi: RISK_RECEIVER_ABI,
+          functionName: "getSourceRiskParams",
+          args: [source as Hex],
+        })
+      );
+      calls[key] = encodeFunctionResult({
+        abi: RISK_RECEIVER_ABI,
+        functionName: "getSourceRiskParams",
+        result: {
+          ...report.params[j],
+          lastUpdated: BigInt(fixture.nowUnixSeconds),
+        },
+      });
+    });
+
+    const stored = calls[callKey(vault, "getRiskObservations")];
+    const observations = stored
+      ? decodeFunctionResult({
+          abi: RISK_RECEIVER_ABI,
+          functionName: "getRiskObservations",
+          data: stored as Hex,
+        })
+      : [];
+    store(
+      vault,
+      "getRiskObservations",
+      encodeFunctionResult({
+        abi: RISK_RECEIVER_ABI,
+        functionName: "getRiskObservations",
+        result: [
+          ...observations,
+          {
+            ...report.observation,
+            sources: report.observation.sources.map((s) => ({
+              ...s,
+              source: s.source as Hex,
+            })),
+          },
+        ].slice(-MAX_OBSERVATIONS),
+      })
+    );
+  });
+
+  return { ...fixture, calls };
+}
+
+/** Fixture key of one of the vault's no-argument receiver views */
+function callKey(vault: string, functionName: ReceiverView): string {
+  return fixtureKey(
+    vault,
+    encodeFunctionData({ abi: RISK_RECEIVER_ABI, functionName })
+  );
+}
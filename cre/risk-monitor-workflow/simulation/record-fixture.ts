@@ -0,0 +1,107 @@
+/**
+ * Fixture Recorder
+ *
+ * Captures the real callContract() responses the pipeline needs from an RPC
+ * endpoint, pinned to one block, into the fixture format the harness replays.
+ *
+ * The pipeline discovers its calls as it goes (e.g. sources come from
+ * getYieldSources()), so the recorder replays it repeatedly, fetching each
+ * call the fixture is missing until a full run succeeds. Multicall3 batches
+ * are recorded as their individual sub-calls; a sub-call that reverts is
+ * recorded as null. A call the pipeline pins to an earlier block (the credit
+ * lookback) is fetched at that block.
+ *
+ * Usage:
+ *   bun simulation/record-fixture.ts --rpc https://sepolia.base.org \
+ *     --config config.json --name base-sepolia-healthy \
+ *     --out simulation/fixtures/base-sepolia-healthy.json [--block 12345678]
+ */
+
+import {
+  BaseError,
+  createPublicClient,
+  ExecutionRevertedError,
+  http,
+} from "viem";
+import { parseConfig } from "../config";
+import {
+  fixtureKey,
+  MissingFixtureError,
+  runSimulation,
+  type ChainFixture,
+} from "./harness";
+
+// Upper bound on replay rounds — one new call is recorded per round
+const MAX_ROUNDS = 200;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    const flag = argv[i];
+    if (!flag.startsWith("--") || argv[i + 1] === undefined) {
+      throw new Error(`Expected --flag value pairs, got "${flag}"`);
+    }
+    args[flag.slice(2)] = argv[i + 1];
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  for (const required of ["rpc", "config", "name", "out"]) {
+    if (!args[required]) throw new Error(`Missing --${required}`);
+  }
+
+  const config = parseConfig(await Bun.file(args.config).bytes());
+  const client = createPublicClient({ transport: http(args.rpc) });
+
+  // Pin every call to one block so the fixture is internally consistent
+  const block = args.block
+    ? await client.getBlock({ blockNumber: BigInt(args.block) })
+    : await client.getBlock({ blockTag: "finalized" });
+
+  const fixture: ChainFixture = {
+    name: args.name,
+    description:
+      args.description ?? `Recorded from ${args.rpc} at block ${block.number}`,
+    blockNumber: block.number.toString(),
+    nowUnixSeconds: Number(block.timestamp),
+    config,
+    calls: {},
+  };
+
+  for (let round = 0; round < MAX_ROUNDS; round++) {
+    try {
+      const { outcome } = runSimulation(fixture);
+      await Bun.write(args.out, JSON.stringify(fixture, null, 2) + "\n");
+      console.log(
+        `Recorded ${Object.keys(fixture.calls).length} calls at block ${block.number} → ${args.out} (outcome: ${outcome})`
+      );
+      return;
+    } catch (err) {
+      if (!(err instanceof MissingFixtureError)) throw err;
+
+      fixture.calls[fixtureKey(err.to, err.calldata, err.block)] = await client
+        .call({
+          to: err.to as `0x${string}`,
+          data: err.calldata as `0x${string}`,
+          blockNumber: err.block ? BigInt(err.block) : block.number,
+        })
+        .then(({ data }) => data ?? "0x")
+        .catch((callErr) => {
+          const reverted =
+            callErr instanceof BaseError &&
+            callErr.walk((e) => e instanceof ExecutionRevertedError);
+          if (!reverted) throw callErr;
+          return null;
+        });
+    }
+  }
+
+  throw new Error(`Gave up after ${MAX_ROUNDS} rounds`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,179 @@
+/**
+ * StreamVault Event Trigger
+ *
+ * Vault events that should not wait for the next cron tick — a withdrawal
+ * request, the drawdown circuit breaker, a pause — and the debounce that
+ * keeps a burst of them to a single pipeline run.
+ *
+ * Every run starts without memory of the last one, so the debounce is read
+ * from the chain: blocks are grouped into fixed windows of `debounceBlocks`.
+ * The first matching event in a window runs the pipeline, and a later
+ * withdrawal request runs it again once the shares requested since the last
+ * run exceed those that run saw. Every DON node sees the same logs, so every
+ * node makes the same call.
+ */
+
+import {
+  blockNumber,
+  bytesToHex,
+  hexToBase64,
+  logTriggerConfig,
+  protoBigIntToBigint,
+  type EVMLog,
+  type Runtime,
+} from "@chainlink/cre-sdk";
+import { decodeEventLog, encodeEventTopics, type Hex } from "viem";
+import { STREAM_VAULT_EVENTS_ABI } from "./bindings/contracts";
+import type { Config, EventTriggerConfig, VaultTarget } from "./config";
+import type { EVMClient } from "./protocol-readers";
+
+// src/StreamVault.sol events, from the generated bindings
+export const VAULT_EVENTS_ABI = STREAM_VAULT_EVENTS_ABI;
+
+// Used when config has no eventTrigger — about a minute of blocks on Base
+export const DEFAULT_EVENT_TRIGGER: EventTriggerConfig = {
+  debounceBlocks: 30,
+  confidence: "SAFE",
+};
+
+/** topic0 of every event the trigger listens for */
+export const VAULT_EVENT_TOPICS = VAULT_EVENTS_ABI.map(
+  (event) =>
+    encodeEventTopics({ abi: VAULT_EVENTS_ABI, eventName: event.name })[0]
+);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Type Definitions
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface VaultEvent {
+  name: (typeof VAULT_EVENTS_ABI)[number]["name"];
+  blockNumber: bigint;
+  logIndex: number;
+  /** Epoch a withdrawal request joined; undefined for vault-wide events */
+  epochId?: number;
+  /** Shares a withdrawal request queued; undefined for vault-wide events */
+  shares?: bigint;
+  /** One-line summary for the run log */
+  detail: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Trigger
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Log trigger on the target's vault for every event in VAULT_EVENTS_ABI */
+export function vaultEventTrigger(
+  config: Config,
+  target: VaultTarget
+): ReturnType<typeof logTriggerConfig> {
+  const { confidence } = config.eventTrigger ?? DEFAULT_EVENT_TRIGGER;
+  return logTriggerConfig({
+    addresses: [target.vaultAddress as Hex],
+    topics: [VAULT_EVENT_TOPICS],
+    confidence,
+  });
+}
+
+/** Decodes a trigger log. Throws if it is not one of VAULT_EVENTS_ABI. */
+export function decodeVaultEvent(log: EVMLog): VaultEvent {
+  if (!log.blockNumber) {
+    throw new Error("Vault event log has no block number");
+  }
+  const event = decodeEventLog({
+    abi: VAULT_EVENTS_ABI,
+    topics: log.topics.map((t) => bytesToHex(t)) as [Hex, ...Hex[]],
+    data: bytesToHex(log.data) as Hex,
+  });
+  const base = {
+    blockNumber: protoBigIntToBigint(log.blockNumber),
+    logIndex: log.index,
+  };
+
+  if (event.eventName === "WithdrawRequested") {
+    const { user, epochId, shares } = event.args;
+    return {
+      ...base,
+      name: event.eventName,
+      epochId: Number(epochId),
+      shares,
+      detail: `${shares} shares requested by ${user} for epoch ${epochId}`,
+    };
+  }
+  if (event.eventName === "DrawdownCircuitBreaker") {
+    const { currentNav, highWaterMark, drawdownBps } = event.args;
+    return {
+      ...base,
+      name: event.eventName,
+      detail: `drawdown ${drawdownBps} bps (NAV ${currentNav}, high-water mark ${highWaterMark})`,
+    };
+  }
+  return {
+    ...base,
+    name: event.eventName,
+    detail: `paused by ${event.args.by}`,
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Debounce
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * True when `event` should run the pipeline: it is the first matching vault
+ * event in its debounce window, or a withdrawal request that brings the
+ * shares requested since the window's last run above the shares requested
+ * up to it. Replaying the window's logs in order makes the same call every
+ * earlier event made. Other later events are left to the cron baseline.
+ */
+export function runsInWindow(
+  runtime: Runtime<Config>,
+  evmClient: EVMClient,
+  config: Config,
+  target: VaultTarget,
+  event: VaultEvent
+): boolean {
+  const { debounceBlocks } = config.eventTrigger ?? DEFAULT_EVENT_TRIGGER;
+  const windowStart =
+    event.blockNumber - (event.blockNumber % BigInt(debounceBlocks));
+
+  const { logs } = evmClient
+    .filterLogs(runtime, {
+      filterQuery: {
+        addresses: [hexToBase64(target.vaultAddress)],
+        topics: [{ topic: VAULT_EVENT_TOPICS.map((t) => hexToBase64(t)) }],
+        fromBlock: blockNumber(windowStart),
+        toBlock: blockNumber(event.blockNumber),
+      },
+    })
+    .result();
+
+  const earlier = logs
+    .filter((log) => {
+      if (log.removed || !log.blockNumber) return false;
+      const block = protoBigIntToBigint(log.blockNumber);
+      return (
+        block < event.blockNumber ||
+        (block === event.blockNumber && log.index < event.logIndex)
+      );
+    })
+    .map(decodeVaultEvent)
+    .sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : a.blockNumber < b.blockNumber
+          ? -1
+          : 1
+    );
+
+  let scored = 0n; // shares requested up to the window's last run
+  let unscored = 0n; // shares requested after it
+  earlier.forEach((e, i) => {
+    unscored += e.shares ?? 0n;
+    if (i === 0 || unscored > scored) {
+      scored += unscored;
+      unscored = 0n;
+    }
+  });
+  return earlier.length === 0 || unscored + (event.shares ?? 0n) > scored;
+}
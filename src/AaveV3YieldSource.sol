@@ -5,30 +5,35 @@ import {IYieldSource} from "./IYieldSource.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
+/// @notice Reserve data as Aave V3's Pool returns it (DataTypes.ReserveDataLegacy).
+/// @dev Returned as one struct rather than fifteen values: the flat tuple does not fit on the legacy
+///      pipeline's stack. Every member is static, so the ABI encoding is the same.
+struct ReserveData {
+    uint256 configuration;
+    uint128 liquidityIndex;
+    uint128 currentLiquidityRate;
+    uint128 variableBorrowIndex;
+    uint128 currentVariableBorrowRate;
+    uint128 currentStableBorrowRate;
+    uint40 lastUpdateTimestamp;
+    uint16 id;
+    address aTokenAddress;
+    address stableDebtTokenAddress;
+    address variableDebtTokenAddress;
+    address interestRateStrategyAddress;
+    uint128 accruedToTreasury;
+    uint128 unbacked;
+    uint128 isolationModeTotalDebt;
+}
+
 /// @notice Minimal Aave V3 Pool interface (supply-only, no borrowing).
 interface IPool {
     function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode) external;
     function withdraw(address asset, uint256 amount, address to) external returns (uint256);
-    function getReserveData(address asset)
-        external
-        view
-        returns (
-            uint256 configuration,
-            uint128 liquidityIndex,
-            uint128 currentLiquidityRate,
-            uint128 variableBorrowIndex,
-            uint128 currentVariableBorrowRate,
-            uint128 currentStableBorrowRate,
-            uint40 lastUpdateTimestamp,
-            uint16 id,
-            address aTokenAddress,
-            address stableDebtTokenAddress,
-            address variableDebtTokenAddress,
-            address interestRateStrategyAddress,
-            uint128 accruedToTreasury,
-            uint128 unbacked,
-            uint128 isolationModeTotalDebt
-        );
+    function getReserveData(address asset) external view returns (ReserveData memory);
+
+    /// @dev Liquidity index including interest accrued since the reserve's last update (ray).
+    function getReserveNormalizedIncome(address asset) external view returns (uint256);
 }
 
 /// @title AaveV3YieldSource
@@ -38,6 +43,26 @@ interface IPool {
 contract AaveV3YieldSource is IYieldSource {
     using SafeERC20 for IERC20;
 
+    /// @notice Reserve readings for the CRE risk monitor: flags that block the vault's exit or entry,
+    ///         supply-cap usage and the liquidity index.
+    struct ReserveState {
+        bool active;
+        bool frozen;
+        bool paused;
+        uint256 supplyCap; // underlying units; 0 = uncapped
+        uint256 totalSupplied; // underlying units, the treasury's accrued share included (as Aave's cap check counts it)
+        uint256 liquidityIndex; // ray, accrued to the current block
+    }
+
+    // Reserve configuration bitmap layout (Aave V3 ReserveConfiguration)
+    uint256 internal constant DECIMALS_START_BIT = 48;
+    uint256 internal constant ACTIVE_BIT = 56;
+    uint256 internal constant FROZEN_BIT = 57;
+    uint256 internal constant PAUSED_BIT = 60;
+    uint256 internal constant SUPPLY_CAP_START_BIT = 116;
+    uint256 internal constant SUPPLY_CAP_MASK = (1 << 36) - 1;
+    uint256 internal constant RAY = 1e27;
+
     IERC20 public immutable UNDERLYING_ASSET;
     IERC20 public immutable A_TOKEN;
     IPool public immutable POOL;
@@ -119,6 +144,22 @@ contract AaveV3YieldSource is IYieldSource {
         return ourBalance < poolLiquidity ? ourBalance : poolLiquidity;
     }
 
+    /// @notice Returns the reserve's flags, supply-cap usage and liquidity index in one call.
+    function getReserveState() external view returns (ReserveState memory state) {
+        ReserveData memory reserve = POOL.getReserveData(address(UNDERLYING_ASSET));
+        uint256 configuration = reserve.configuration;
+
+        state.active = ((configuration >> ACTIVE_BIT) & 1) == 1;
+        state.frozen = ((configuration >> FROZEN_BIT) & 1) == 1;
+        state.paused = ((configuration >> PAUSED_BIT) & 1) == 1;
+
+        uint256 decimals = (configuration >> DECIMALS_START_BIT) & 0xFF;
+        state.supplyCap = ((configuration >> SUPPLY_CAP_START_BIT) & SUPPLY_CAP_MASK) * 10 ** decimals;
+
+        state.liquidityIndex = POOL.getReserveNormalizedIncome(address(UNDERLYING_ASSET));
+        state.totalSupplied = A_TOKEN.totalSupply() + (uint256(reserve.accruedToTreasury) * state.liquidityIndex) / RAY;
+    }
+
     function _onlyVault() internal view {
         if (msg.sender != VAULT) revert OnlyVault();
     }
@@ -18,6 +18,28 @@ struct MarketParams {
     uint256 lltv;
 }
 
+/// @notice Market totals as Morpho Blue stores them.
+struct Market {
+    uint128 totalSupplyAssets;
+    uint128 totalSupplyShares;
+    uint128 totalBorrowAssets;
+    uint128 totalBorrowShares;
+    uint128 lastUpdate;
+    uint128 fee;
+}
+
+/// @notice Minimal interface for a Morpho Blue interest rate model.
+interface IIrm {
+    /// @dev Borrow rate per second, scaled by 1e18, without updating the IRM's state.
+    function borrowRateView(MarketParams memory marketParams, Market memory market) external view returns (uint256);
+}
+
+/// @notice Minimal interface for a Morpho Blue market oracle.
+interface IOracle {
+    /// @dev Price of 1 collateral token in loan tokens, scaled by 1e36 (net of decimals).
+    function price() external view returns (uint256);
+}
+
 /// @notice Minimal interface for Morpho Blue core contract.
 /// @dev Full interface: https://github.com/morpho-org/morpho-blue/blob/main/src/interfaces/IMorpho.sol
 interface IMorphoBlue {
@@ -89,6 +111,19 @@ contract MorphoBlueYieldSource is IYieldSource {
     uint256 public immutable LLTV;
     bytes32 public immutable MARKET_ID;
 
+    /// @notice Market-level readings for the CRE risk monitor's credit score.
+    /// @dev Realized bad debt is written off against totalSupplyAssets, so it shows up as a drop in
+    ///      totalSupplyAssets per supply share between two readings.
+    struct MarketState {
+        uint256 totalSupplyAssets;
+        uint256 totalSupplyShares;
+        uint256 totalBorrowAssets;
+        uint256 totalBorrowShares;
+        uint256 borrowRate; // per second, 1e18-scaled; 0 when the market has no IRM
+        uint256 lltv; // 1e18-scaled
+        uint256 collateralPrice; // IOracle.price(), 1e36-scaled; 0 when the market has no oracle
+    }
+
     error OnlyVault();
     error ZeroAddress();
 
@@ -182,6 +217,31 @@ contract MorphoBlueYieldSource is IYieldSource {
         return ourBalance < available ? ourBalance : available;
     }
 
+    /// @notice Returns the market's totals, borrow rate, LLTV and collateral price in one call.
+    function getMarketState() external view returns (MarketState memory state) {
+        Market memory market;
+        (
+            market.totalSupplyAssets,
+            market.totalSupplyShares,
+            market.totalBorrowAssets,
+            market.totalBorrowShares,
+            market.lastUpdate,
+            market.fee
+        ) = MORPHO.market(MARKET_ID);
+
+        state.totalSupplyAssets = market.totalSupplyAssets;
+        state.totalSupplyShares = market.totalSupplyShares;
+        state.totalBorrowAssets = market.totalBorrowAssets;
+        state.totalBorrowShares = market.totalBorrowShares;
+        if (IRM_ADDRESS != address(0)) {
+            state.borrowRate = IIrm(IRM_ADDRESS).borrowRateView(_marketParams(), market);
+        }
+        state.lltv = LLTV;
+        if (ORACLE != address(0)) {
+            state.collateralPrice = IOracle(ORACLE).price();
+        }
+    }
+
     // ─── Internal ────────────────────────────────────────────────────────
 
     /// @dev Reconstruct MarketParams from stored immutables.
@@ -17,6 +17,11 @@ import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import {IERC7540Redeem, IERC7540Operator} from "./interfaces/IERC7540.sol";
 import {FeeLib} from "./libraries/FeeLib.sol";
 import {IComplianceRouter} from "./compliance/IComplianceRouter.sol";
+import {IReceiver} from "./interfaces/IReceiver.sol";
+import {IRiskReceiver} from "./interfaces/IRiskReceiver.sol";
+import {RiskModel} from "./libraries/RiskModel.sol";
+import {RiskReceiverLib} from "./libraries/RiskReceiverLib.sol";
+import {YieldSourceLib} from "./libraries/YieldSourceLib.sol";
 
 /// @title StreamVault
 /// @notice UUPS-upgradeable ERC-4626 vault with async (epoch-based) withdrawals, multi-connector
@@ -30,7 +35,8 @@ contract StreamVault is
     PausableUpgradeable,
     UUPSUpgradeable,
     EIP712,
-    IERC7540Redeem
+    IERC7540Redeem,
+    IRiskReceiver
 {
     using SafeERC20 for IERC20;
     using Math for uint256;
@@ -313,17 +319,17 @@ contract StreamVault is
         revert SyncWithdrawDisabled();
     }
 
-    /// @notice Returns 0 when paused. Respects deposit cap when set.
+    /// @notice Returns 0 when paused or in a RED risk emergency. Respects deposit cap when set.
     function maxDeposit(address) public view override returns (uint256) {
-        if (paused()) return 0;
+        if (paused() || RiskReceiverLib.depositsHalted()) return 0;
         if (depositCap == 0) return type(uint256).max;
         uint256 current = totalAssets();
         return current >= depositCap ? 0 : depositCap - current;
     }
 
-    /// @notice Returns 0 when paused. Respects deposit cap when set.
+    /// @notice Returns 0 when paused or in a RED risk emergency. Respects deposit cap when set.
     function maxMint(address) public view override returns (uint256) {
-        if (paused()) return 0;
+        if (paused() || RiskReceiverLib.depositsHalted()) return 0;
         if (depositCap == 0) return type(uint256).max;
         uint256 current = totalAssets();
         if (current >= depositCap) return 0;
@@ -454,35 +460,15 @@ contract StreamVault is
 
     /// @notice Deploy idle USDC to a specific yield source.
     function deployToYield(uint256 sourceIndex, uint256 amount) external onlyOperator nonReentrant {
-        if (amount == 0) revert ZeroAmount();
-        if (sourceIndex >= yieldSources.length) revert InvalidSourceIndex();
-
+        RiskReceiverLib.requireDeploymentsAllowed();
         _accrueManagementFee();
-
-        IYieldSource source = yieldSources[sourceIndex];
-        IERC20(asset()).forceApprove(address(source), amount);
-        source.deposit(amount);
-
-        emit DeployedToYield(sourceIndex, amount);
+        YieldSourceLib.deploy(yieldSources, sourceIndex, amount);
     }
 
     /// @notice Pull USDC from a specific yield source back to idle.
     function withdrawFromYield(uint256 sourceIndex, uint256 amount) external onlyOperator nonReentrant {
-        if (amount == 0) revert ZeroAmount();
-        if (sourceIndex >= yieldSources.length) revert InvalidSourceIndex();
-
         _accrueManagementFee();
-
-        uint256 balanceBefore = IERC20(asset()).balanceOf(address(this));
-        yieldSources[sourceIndex].withdraw(amount);
-        uint256 balanceAfter = IERC20(asset()).balanceOf(address(this));
-
-        uint256 received = balanceAfter - balanceBefore;
-        if (received + 1 < amount) {
-            revert YieldSourceBalanceMismatch(amount, received);
-        }
-
-        emit WithdrawnFromYield(sourceIndex, amount);
+        YieldSourceLib.withdraw(yieldSources, sourceIndex, amount);
     }
 
     /// @notice Harvest yield from all sources using per-source high water marks.
@@ -841,10 +827,54 @@ contract StreamVault is
         return 0;
     }
 
-    /// @notice ERC-165 interface detection.
+    /// @notice ERC-165 interface detection. The KeystoneForwarder only delivers to IReceiver implementers.
     function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
         return interfaceId == type(IERC7540Redeem).interfaceId || interfaceId == type(IERC7540Operator).interfaceId
-            || interfaceId == 0x01ffc9a7;
+            || interfaceId == type(IReceiver).interfaceId || interfaceId == 0x01ffc9a7;
+    }
+
+    // ─── CRE Risk Receiver (IRiskReceiver) ───────────────────────────────
+
+    /// @notice Applies a DON-signed risk report the configured workflow sent through the configured
+    ///         KeystoneForwarder.
+    /// @dev Decoding, risk state and withdrawals live in RiskReceiverLib; the vault settles or pauses.
+    function onReport(bytes calldata metadata, bytes calldata report) external nonReentrant {
+        (bool settle, bool halt) = RiskReceiverLib.applyReport(yieldSources, currentEpochId, metadata, report);
+        if (settle) _settleCurrentEpoch();
+        if (halt && !paused()) {
+            _pause();
+            emit VaultPaused(msg.sender);
+        }
+    }
+
+    /// @notice Sets the KeystoneForwarder allowed to call onReport (address(0) disables reports) and the
+    ///         workflow owner and ID its reports must carry.
+    function setRiskReportSource(address forwarder, address workflowOwner, bytes32 workflowId) external onlyOperator {
+        RiskReceiverLib.setReportSource(forwarder, workflowOwner, workflowId);
+    }
+
+    function riskReportSource() external view returns (address forwarder, address workflowOwner, bytes32 workflowId) {
+        return RiskReceiverLib.reportSource();
+    }
+
+    function getSourceRiskParams(address source) external view returns (RiskModel.SourceRiskParams memory params) {
+        return RiskReceiverLib.sourceRiskParams(source);
+    }
+
+    function getRiskSnapshot() external view returns (RiskModel.RiskSnapshot memory snapshot) {
+        return RiskReceiverLib.riskSnapshot();
+    }
+
+    function getEmergencyState() external view returns (uint8 severity, uint64 redSince) {
+        return RiskReceiverLib.emergencyState();
+    }
+
+    function getRiskObservations() external view returns (RiskObservation[] memory) {
+        // Passed through pre-encoded: decoding and re-encoding the nested array would cost ~700 bytes
+        bytes memory encoded = RiskReceiverLib.encodedRiskObservations();
+        assembly ("memory-safe") {
+            return(add(encoded, 32), mload(encoded))
+        }
     }
 
     // ─── UUPS Upgrade Authorization ──────────────────────────────────────
@@ -874,30 +904,7 @@ contract StreamVault is
         // Pull from yield sources if idle funds are insufficient
         uint256 idle = IERC20(asset()).balanceOf(address(this));
         uint256 available = idle > totalClaimableAssets ? idle - totalClaimableAssets : 0;
-
-        if (assetsOwed > available) {
-            uint256 remaining = assetsOwed - available;
-            uint256 len = yieldSources.length;
-
-            for (uint256 i; i < len && remaining > 0; ++i) {
-                uint256 srcBal = yieldSources[i].balance();
-                if (srcBal == 0) continue;
-
-                uint256 pull = remaining > srcBal ? srcBal : remaining;
-                uint256 balanceBefore = IERC20(asset()).balanceOf(address(this));
-                yieldSources[i].withdraw(pull);
-                uint256 received = IERC20(asset()).balanceOf(address(this)) - balanceBefore;
-
-                if (received + 1 < pull) {
-                    revert YieldSourceBalanceMismatch(pull, received);
-                }
-
-                remaining -= pull;
-                emit WithdrawnFromYield(i, pull);
-            }
-
-            if (remaining > 0) revert InsufficientLiquidity();
-        }
+        if (assetsOwed > available) YieldSourceLib.pull(yieldSources, assetsOwed - available);
 
         epoch.totalAssetsOwed = assetsOwed;
         epoch.status = EpochStatus.SETTLED;
@@ -982,30 +989,11 @@ contract StreamVault is
     }
 
     function _addYieldSourceInternal(IYieldSource source) internal {
-        if (address(source) == address(0)) revert ZeroAddress();
-        if (source.asset() != asset()) revert AssetMismatch();
-        if (yieldSources.length >= MAX_YIELD_SOURCES) revert TooManyYieldSources();
-
-        yieldSources.push(source);
-        emit YieldSourceAdded(yieldSources.length - 1, address(source));
+        YieldSourceLib.add(yieldSources, source, asset(), MAX_YIELD_SOURCES);
     }
 
     function _removeYieldSourceInternal(uint256 sourceIndex) internal {
-        uint256 len = yieldSources.length;
-        if (sourceIndex >= len) revert InvalidSourceIndex();
-
-        IYieldSource source = yieldSources[sourceIndex];
-        if (source.balance() != 0) revert SourceNotEmpty();
-
-        yieldSources[sourceIndex] = yieldSources[len - 1];
-        yieldSources.pop();
-
-        if (sourceIndex < yieldSources.length) {
-            lastHarvestedBalance[sourceIndex] = lastHarvestedBalance[len - 1];
-        }
-        delete lastHarvestedBalance[len - 1];
-
-        emit YieldSourceRemoved(sourceIndex, address(source));
+        YieldSourceLib.remove(yieldSources, lastHarvestedBalance, sourceIndex);
     }
 
     function _setManagementFeeInternal(uint256 _managementFeeBps) internal {
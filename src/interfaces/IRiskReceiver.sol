@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IReceiver} from "./IReceiver.sol";
+import {RiskModel} from "../libraries/RiskModel.sol";
+
+/// @title IRiskReceiver
+/// @notice Vault surface the CRE risk monitor workflow depends on: the report receiver plus the
+///         risk state it reads back on every tick.
+/// @dev Implemented by StreamVault. The workflow's TypeScript bindings (cre/risk-monitor-workflow/bindings)
+///      are generated from the StreamVault artifact, so a change here fails the workflow build until
+///      the readers follow it.
+interface IRiskReceiver is IReceiver {
+    /// @notice One source's readings in a stored observation
+    struct SourceObservation {
+        address source;
+        uint16 utilizationBps;
+        uint256 availableLiquidity;
+    }
+
+    /// @notice Point-in-time readings stored with each param update, used for trend scoring
+    struct RiskObservation {
+        uint64 timestamp;
+        uint256 totalAssets;
+        SourceObservation[] sources;
+    }
+
+    /// @notice Last risk params written for `source`; lastUpdated == 0 means never written
+    function getSourceRiskParams(address source) external view returns (RiskModel.SourceRiskParams memory params);
+
+    /// @notice Last aggregate snapshot written by the workflow; timestamp == 0 means never written
+    function getRiskSnapshot() external view returns (RiskModel.RiskSnapshot memory snapshot);
+
+    /// @notice Emergency rung in force and when the current RED streak began (0 = not in RED)
+    function getEmergencyState() external view returns (uint8 severity, uint64 redSince);
+
+    /// @notice Stored observations, oldest first
+    function getRiskObservations() external view returns (RiskObservation[] memory observations);
+}
@@ -0,0 +1,312 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IYieldSource} from "../IYieldSource.sol";
+import {IRiskReceiver} from "../interfaces/IRiskReceiver.sol";
+import {RiskModel} from "./RiskModel.sol";
+import {YieldSourceLib} from "./YieldSourceLib.sol";
+
+/// @title RiskReceiverLib
+/// @notice StreamVault's IRiskReceiver side: applies the CRE risk monitor's reports, keeps the risk
+///         state the workflow reads back, and carries out rebalances and unwinds.
+/// @dev Linked library, so its code does not count against the vault's EIP-170 size limit. It runs
+///      by delegatecall in the vault's context and keeps its state in an ERC-7201 namespace, outside
+///      the vault's sequential layout. Payload layouts must match cre/risk-monitor-workflow/risk-model.ts.
+library RiskReceiverLib {
+    // ─── Constants ──────────────────────────────────────────────────────
+
+    uint8 internal constant ACTION_UPDATE_RISK_PARAMS = 0;
+    uint8 internal constant ACTION_DEFENSIVE_REBALANCE = 1;
+    uint8 internal constant ACTION_EMERGENCY_PAUSE = 2;
+    uint8 internal constant ACTION_SETTLE_EPOCH = 3;
+
+    uint8 internal constant SEVERITY_HALT_DEPLOYMENTS = 1;
+    uint8 internal constant SEVERITY_FULL_UNWIND = 3;
+
+    /// @notice Observations kept; a calm vault stores one every 15 minutes, so 24 span 6 hours
+    uint256 internal constant MAX_OBSERVATIONS = 24;
+
+    // keccak256(abi.encode(uint256(keccak256("streamvault.storage.RiskReceiver")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant STORAGE_SLOT = 0x13573445b435cd0d636e9dbf5fbc122506ff86bf04ea0d80f289b561b709ce00;
+
+    // ─── Types ──────────────────────────────────────────────────────────
+
+    /// @custom:storage-location erc7201:streamvault.storage.RiskReceiver
+    struct RiskState {
+        address forwarder;
+        address workflowOwner; // expected in every report's metadata
+        bytes32 workflowId; // expected in every report's metadata
+        uint8 emergencySeverity;
+        uint64 redSince; // 0 = not in RED
+        RiskModel.RiskSnapshot snapshot;
+        mapping(address => RiskModel.SourceRiskParams) params;
+        IRiskReceiver.RiskObservation[] observations; // ring of MAX_OBSERVATIONS
+        uint256 nextObservation; // ring slot the next observation is written to
+    }
+
+    /// @notice One withdrawal of a DEFENSIVE_REBALANCE report
+    struct RebalanceLeg {
+        address source;
+        uint256 amount;
+    }
+
+    // ─── Events ─────────────────────────────────────────────────────────
+
+    event RiskReportSourceUpdated(address indexed forwarder, address indexed workflowOwner, bytes32 workflowId);
+    event RiskReportApplied(uint8 indexed action, bytes32 policyHash, bool degraded);
+    event EmergencyStateUpdated(uint8 severity, uint64 redSince);
+    event WithdrawnFromYield(uint256 indexed sourceIndex, uint256 amount);
+
+    // ─── Errors ─────────────────────────────────────────────────────────
+
+    error OnlyRiskForwarder();
+    error InvalidReportMetadata();
+    error UnexpectedWorkflow(bytes32 workflowId, address workflowOwner);
+    error UnknownRiskAction(uint8 action);
+    error InvalidRiskParams(address source);
+    error InvalidRiskSnapshot();
+    error InvalidEmergencyState();
+    error StaleSettleEpoch(uint256 epochId, uint256 currentEpochId);
+    error UnknownYieldSource(address source);
+    error DeploymentsHalted();
+    error ArrayLengthMismatch();
+
+    // ─── Report Handling ────────────────────────────────────────────────
+
+    /// @notice Applies a DON-signed report; callable only through the configured forwarder, and only
+    ///         for the configured workflow.
+    /// @dev Any report but a pause ends the RED streak. The vault settles or pauses itself when asked.
+    /// @param sources The vault's yield sources, for rebalance and unwind withdrawals
+    /// @param currentEpochId The vault's open epoch, which a SETTLE_EPOCH report must name
+    /// @param metadata The forwarder's abi.encodePacked(workflowId, workflowName, workflowOwner, reportName)
+    /// @param report abi.encode(uint8 action, bytes data)
+    /// @return settle True when the vault must settle its current epoch
+    /// @return pause True when the vault must pause (full unwind)
+    function applyReport(
+        IYieldSource[] storage sources,
+        uint256 currentEpochId,
+        bytes calldata metadata,
+        bytes calldata report
+    ) external returns (bool settle, bool pause) {
+        RiskState storage $ = _state();
+        if (msg.sender != $.forwarder) revert OnlyRiskForwarder();
+        _checkWorkflow($, metadata);
+
+        (uint8 action, bytes memory data) = abi.decode(report, (uint8, bytes));
+        if (action == ACTION_EMERGENCY_PAUSE) {
+            return (false, _applyEmergency($, sources, data));
+        }
+
+        if ($.redSince != 0) {
+            $.emergencySeverity = 0;
+            $.redSince = 0;
+            emit EmergencyStateUpdated(0, 0);
+        }
+
+        if (action == ACTION_UPDATE_RISK_PARAMS) {
+            _applyParams($, data);
+        } else if (action == ACTION_DEFENSIVE_REBALANCE) {
+            _applyRebalance($, sources, data);
+        } else if (action == ACTION_SETTLE_EPOCH) {
+            (uint256 epochId, bytes32 policyHash, bool degraded, RiskModel.RiskSnapshot memory snapshot) =
+                abi.decode(data, (uint256, bytes32, bool, RiskModel.RiskSnapshot));
+            if (epochId != currentEpochId) revert StaleSettleEpoch(epochId, currentEpochId);
+            _storeSnapshot($, snapshot);
+            emit RiskReportApplied(ACTION_SETTLE_EPOCH, policyHash, degraded);
+            settle = true;
+        } else {
+            revert UnknownRiskAction(action);
+        }
+    }
+
+    /// @dev UPDATE_PARAMS: every source's params, the aggregate snapshot and a trend observation
+    function _applyParams(RiskState storage $, bytes memory data) private {
+        (
+            address[] memory sources,
+            RiskModel.SourceRiskParams[] memory params,
+            RiskModel.RiskSnapshot memory snapshot,,
+            bytes32 policyHash,
+            bool degraded,
+            IRiskReceiver.RiskObservation memory observation
+        ) = abi.decode(
+            data,
+            (
+                address[],
+                RiskModel.SourceRiskParams[],
+                RiskModel.RiskSnapshot,
+                string,
+                bytes32,
+                bool,
+                IRiskReceiver.RiskObservation
+            )
+        );
+        if (sources.length != params.length) revert ArrayLengthMismatch();
+
+        for (uint256 i; i < sources.length; ++i) {
+            if (!RiskModel.validateParams(params[i])) revert InvalidRiskParams(sources[i]);
+            params[i].lastUpdated = uint64(block.timestamp);
+            $.params[sources[i]] = params[i];
+        }
+        _storeSnapshot($, snapshot);
+        _recordObservation($, observation);
+
+        emit RiskReportApplied(ACTION_UPDATE_RISK_PARAMS, policyHash, degraded);
+    }
+
+    /// @dev DEFENSIVE_REBALANCE: each leg's amount back to idle, and the snapshot that called for it
+    function _applyRebalance(RiskState storage $, IYieldSource[] storage sources, bytes memory data) private {
+        (RebalanceLeg[] memory legs, bytes32 policyHash, bool degraded, RiskModel.RiskSnapshot memory snapshot) =
+            abi.decode(data, (RebalanceLeg[], bytes32, bool, RiskModel.RiskSnapshot));
+        _storeSnapshot($, snapshot);
+        for (uint256 i; i < legs.length; ++i) {
+            YieldSourceLib.withdraw(sources, _indexOf(sources, legs[i].source), legs[i].amount);
+        }
+        emit RiskReportApplied(ACTION_DEFENSIVE_REBALANCE, policyHash, degraded);
+    }
+
+    /// @dev EMERGENCY_PAUSE: records the rung, unwinds what it names and, at the top rung, every source
+    function _applyEmergency(RiskState storage $, IYieldSource[] storage sources, bytes memory data)
+        private
+        returns (bool pause)
+    {
+        (
+            uint8 severity,
+            bytes32 policyHash,
+            bool degraded,
+            uint64 redSince,
+            address unwindSource,
+            uint256 unwindAmount
+        ) = abi.decode(data, (uint8, bytes32, bool, uint64, address, uint256));
+        if (severity > SEVERITY_FULL_UNWIND || redSince == 0) revert InvalidEmergencyState();
+
+        $.emergencySeverity = severity;
+        $.redSince = redSince;
+        emit EmergencyStateUpdated(severity, redSince);
+
+        // Best effort, so the rung is recorded even when a stressed source cannot pay out
+        if (unwindAmount > 0) {
+            _tryWithdraw(sources, _indexOf(sources, unwindSource), unwindAmount);
+        }
+        if (severity == SEVERITY_FULL_UNWIND) {
+            for (uint256 i; i < sources.length; ++i) {
+                uint256 balance = sources[i].balance();
+                if (balance > 0) _tryWithdraw(sources, i, balance);
+            }
+            pause = true;
+        }
+
+        emit RiskReportApplied(ACTION_EMERGENCY_PAUSE, policyHash, degraded);
+    }
+
+    // ─── Views ──────────────────────────────────────────────────────────
+
+    /// @notice Stored observations, oldest first, ABI-encoded as IRiskReceiver.getRiskObservations returns them
+    function encodedRiskObservations() external view returns (bytes memory) {
+        RiskState storage $ = _state();
+        uint256 len = $.observations.length;
+        uint256 oldest = len < MAX_OBSERVATIONS ? 0 : $.nextObservation;
+        IRiskReceiver.RiskObservation[] memory observations = new IRiskReceiver.RiskObservation[](len);
+        for (uint256 i; i < len; ++i) {
+            observations[i] = $.observations[(oldest + i) % len];
+        }
+        return abi.encode(observations);
+    }
+
+    function sourceRiskParams(address source) internal view returns (RiskModel.SourceRiskParams memory) {
+        return _state().params[source];
+    }
+
+    function riskSnapshot() internal view returns (RiskModel.RiskSnapshot memory) {
+        return _state().snapshot;
+    }
+
+    function emergencyState() internal view returns (uint8 severity, uint64 redSince) {
+        RiskState storage $ = _state();
+        return ($.emergencySeverity, $.redSince);
+    }
+
+    function reportSource() internal view returns (address, address, bytes32) {
+        RiskState storage $ = _state();
+        return ($.forwarder, $.workflowOwner, $.workflowId);
+    }
+
+    /// @notice True while a RED streak runs: every rung halts deposits
+    function depositsHalted() internal view returns (bool) {
+        return _state().redSince != 0;
+    }
+
+    /// @notice Reverts from the HALT_DEPLOYMENTS rung up
+    function requireDeploymentsAllowed() internal view {
+        RiskState storage $ = _state();
+        if ($.redSince != 0 && $.emergencySeverity >= SEVERITY_HALT_DEPLOYMENTS) revert DeploymentsHalted();
+    }
+
+    // ─── Admin ──────────────────────────────────────────────────────────
+
+    /// @notice Sets the KeystoneForwarder allowed to deliver reports (address(0) disables them) and
+    ///         the workflow whose reports it may deliver
+    function setReportSource(address newForwarder, address workflowOwner, bytes32 workflowId) internal {
+        RiskState storage $ = _state();
+        $.forwarder = newForwarder;
+        $.workflowOwner = workflowOwner;
+        $.workflowId = workflowId;
+        emit RiskReportSourceUpdated(newForwarder, workflowOwner, workflowId);
+    }
+
+    // ─── Internal Helpers ───────────────────────────────────────────────
+
+    /// @dev Reverts unless the metadata names the configured workflow ID and owner
+    function _checkWorkflow(RiskState storage $, bytes calldata metadata) private view {
+        // workflowId at [0, 32), workflowName at [32, 42), workflowOwner at [42, 62)
+        if (metadata.length < 62) revert InvalidReportMetadata();
+        bytes32 workflowId = bytes32(metadata[:32]);
+        address workflowOwner = address(bytes20(metadata[42:62]));
+        if (workflowId != $.workflowId || workflowOwner != $.workflowOwner) {
+            revert UnexpectedWorkflow(workflowId, workflowOwner);
+        }
+    }
+
+    /// @dev Every report but a pause carries the snapshot it was decided on
+    function _storeSnapshot(RiskState storage $, RiskModel.RiskSnapshot memory snapshot) private {
+        if (snapshot.systemStatus > RiskModel.TIER_RED) revert InvalidRiskSnapshot();
+        $.snapshot = snapshot;
+    }
+
+    function _state() private pure returns (RiskState storage $) {
+        assembly {
+            $.slot := STORAGE_SLOT
+        }
+    }
+
+    /// @dev Withdraws without reverting the report: a source that cannot pay out in full keeps its balance
+    function _tryWithdraw(IYieldSource[] storage sources, uint256 index, uint256 amount) private {
+        try sources[index].withdraw(amount) {
+            emit WithdrawnFromYield(index, amount);
+        } catch {}
+    }
+
+    function _indexOf(IYieldSource[] storage sources, address source) private view returns (uint256) {
+        for (uint256 i; i < sources.length; ++i) {
+            if (address(sources[i]) == source) return i;
+        }
+        revert UnknownYieldSource(source);
+    }
+
+    /// @dev Overwrites the oldest observation once the ring is full
+    function _recordObservation(RiskState storage $, IRiskReceiver.RiskObservation memory observation) private {
+        IRiskReceiver.RiskObservation storage stored;
+        if ($.observations.length < MAX_OBSERVATIONS) {
+            stored = $.observations.push();
+        } else {
+            stored = $.observations[$.nextObservation];
+            delete stored.sources;
+        }
+        $.nextObservation = ($.nextObservation + 1) % MAX_OBSERVATIONS;
+
+        stored.timestamp = observation.timestamp;
+        stored.totalAssets = observation.totalAssets;
+        for (uint256 i; i < observation.sources.length; ++i) {
+            stored.sources.push(observation.sources[i]);
+        }
+    }
+}
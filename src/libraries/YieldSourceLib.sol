@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {IYieldSource} from "../IYieldSource.sol";
+
+/// @title YieldSourceLib
+/// @notice StreamVault's yield-source registry and fund movements: adding and removing sources,
+///         deploying idle assets, and withdrawing them back with a received-amount check.
+/// @dev Linked library, so its code does not count against the vault's EIP-170 size limit. It runs
+///      by delegatecall in the vault's context: events are emitted by the vault, and its errors and
+///      events repeat the vault's declarations so selectors and topics are unchanged.
+library YieldSourceLib {
+    using SafeERC20 for IERC20;
+
+    // ─── Events ─────────────────────────────────────────────────────────
+
+    event DeployedToYield(uint256 indexed sourceIndex, uint256 amount);
+    event WithdrawnFromYield(uint256 indexed sourceIndex, uint256 amount);
+    event YieldSourceAdded(uint256 indexed sourceIndex, address indexed source);
+    event YieldSourceRemoved(uint256 indexed sourceIndex, address indexed source);
+
+    // ─── Errors ─────────────────────────────────────────────────────────
+
+    error ZeroAmount();
+    error ZeroAddress();
+    error AssetMismatch();
+    error InvalidSourceIndex();
+    error SourceNotEmpty();
+    error InsufficientLiquidity();
+    error TooManyYieldSources();
+    error YieldSourceBalanceMismatch(uint256 expected, uint256 actual);
+
+    // ─── Registry ───────────────────────────────────────────────────────
+
+    /// @notice Registers `source`, which must hold the vault's asset
+    /// @param maxSources The vault's MAX_YIELD_SOURCES
+    function add(IYieldSource[] storage sources, IYieldSource source, address asset, uint256 maxSources)
+        external
+    {
+        if (address(source) == address(0)) revert ZeroAddress();
+        if (source.asset() != asset) revert AssetMismatch();
+        if (sources.length >= maxSources) revert TooManyYieldSources();
+
+        sources.push(source);
+        emit YieldSourceAdded(sources.length - 1, address(source));
+    }
+
+    /// @notice Removes an empty source; the last source takes its index, with its harvest mark
+    function remove(
+        IYieldSource[] storage sources,
+        mapping(uint256 => uint256) storage lastHarvestedBalance,
+        uint256 sourceIndex
+    ) external {
+        uint256 len = sources.length;
+        if (sourceIndex >= len) revert InvalidSourceIndex();
+
+        IYieldSource source = sources[sourceIndex];
+        if (source.balance() != 0) revert SourceNotEmpty();
+
+        sources[sourceIndex] = sources[len - 1];
+        sources.pop();
+
+        if (sourceIndex < sources.length) {
+            lastHarvestedBalance[sourceIndex] = lastHarvestedBalance[len - 1];
+        }
+        delete lastHarvestedBalance[len - 1];
+
+        emit YieldSourceRemoved(sourceIndex, address(source));
+    }
+
+    // ─── Fund Movements ─────────────────────────────────────────────────
+
+    /// @notice Moves `amount` of idle asset into the source at `sourceIndex`
+    function deploy(IYieldSource[] storage sources, uint256 sourceIndex, uint256 amount) external {
+        if (amount == 0) revert ZeroAmount();
+        if (sourceIndex >= sources.length) revert InvalidSourceIndex();
+
+        IYieldSource source = sources[sourceIndex];
+        IERC20(source.asset()).forceApprove(address(source), amount);
+        source.deposit(amount);
+
+        emit DeployedToYield(sourceIndex, amount);
+    }
+
+    /// @notice Pulls `amount` back to idle from the source at `sourceIndex`
+    /// @dev Reverts when the vault receives more than 1 wei less than asked
+    function withdraw(IYieldSource[] storage sources, uint256 sourceIndex, uint256 amount) public {
+        if (amount == 0) revert ZeroAmount();
+        if (sourceIndex >= sources.length) revert InvalidSourceIndex();
+
+        IYieldSource source = sources[sourceIndex];
+        IERC20 asset = IERC20(source.asset());
+        uint256 balanceBefore = asset.balanceOf(address(this));
+        source.withdraw(amount);
+        uint256 received = asset.balanceOf(address(this)) - balanceBefore;
+
+        if (received + 1 < amount) revert YieldSourceBalanceMismatch(amount, received);
+
+        emit WithdrawnFromYield(sourceIndex, amount);
+    }
+
+    /// @notice Settlement waterfall: pulls `amount` from the sources in index order
+    /// @dev Reverts with InsufficientLiquidity when the sources together hold less
+    function pull(IYieldSource[] storage sources, uint256 amount) external {
+        uint256 len = sources.length;
+        for (uint256 i; i < len && amount > 0; ++i) {
+            uint256 srcBal = sources[i].balance();
+            if (srcBal == 0) continue;
+
+            uint256 take = amount > srcBal ? srcBal : amount;
+            withdraw(sources, i, take);
+            amount -= take;
+        }
+
+        if (amount > 0) revert InsufficientLiquidity();
+    }
+}
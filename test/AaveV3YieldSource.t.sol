@@ -0,0 +1,124 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test} from "forge-std/Test.sol";
+import {AaveV3YieldSource} from "../src/AaveV3YieldSource.sol";
+import {MockAavePool} from "./mocks/MockAavePool.sol";
+import {MockERC20} from "./mocks/MockERC20.sol";
+
+/// @title AaveV3YieldSource Tests
+/// @notice Tests for the adapter's reserve-configuration decoding against a mocked Aave V3 Pool.
+contract AaveV3YieldSource_Test is Test {
+    AaveV3YieldSource internal source;
+    MockAavePool internal pool;
+    MockERC20 internal usdc;
+    MockERC20 internal aUsdc;
+
+    address internal constant VAULT = address(0xBEEF);
+    uint256 internal constant RAY = 1e27;
+
+    // Known configuration words (Aave V3 ReserveConfiguration): decimals 6 at bits 48–55,
+    // active bit 56, frozen bit 57, paused bit 60, supply cap in whole tokens at bits 116–151
+    uint256 internal constant CONFIG_ACTIVE = 0x0106000000000000;
+    uint256 internal constant CONFIG_FROZEN = 0x0306000000000000;
+    uint256 internal constant CONFIG_PAUSED = 0x1106000000000000;
+    uint256 internal constant CONFIG_INACTIVE = 0x0006000000000000;
+    // Supply cap 2,000,000 (0x1E8480) at bit 116, active, 6 decimals
+    uint256 internal constant CONFIG_CAPPED = 0x1E8480_0000000000000_0106000000000000;
+
+    function setUp() public {
+        usdc = new MockERC20("USD Coin", "USDC", 6);
+        aUsdc = new MockERC20("Aave USDC", "aUSDC", 6);
+        pool = new MockAavePool();
+        source = new AaveV3YieldSource(address(usdc), address(pool), address(aUsdc), VAULT);
+        pool.setNormalizedIncome(address(usdc), RAY);
+    }
+
+    // ─── Flag Tests ──────────────────────────────────────────────────────
+
+    function test_getReserveState_activeReserve() public {
+        pool.setReserve(address(usdc), CONFIG_ACTIVE, 0);
+
+        AaveV3YieldSource.ReserveState memory state = source.getReserveState();
+
+        assertTrue(state.active);
+        assertFalse(state.frozen);
+        assertFalse(state.paused);
+        assertEq(state.supplyCap, 0, "No cap bits set = uncapped");
+    }
+
+    function test_getReserveState_readsFrozenBit57() public {
+        assertEq(CONFIG_FROZEN, CONFIG_ACTIVE | (1 << 57));
+        pool.setReserve(address(usdc), CONFIG_FROZEN, 0);
+
+        AaveV3YieldSource.ReserveState memory state = source.getReserveState();
+
+        assertTrue(state.active);
+        assertTrue(state.frozen);
+        assertFalse(state.paused);
+    }
+
+    function test_getReserveState_readsPausedBit60() public {
+        assertEq(CONFIG_PAUSED, CONFIG_ACTIVE | (1 << 60));
+        pool.setReserve(address(usdc), CONFIG_PAUSED, 0);
+
+        AaveV3YieldSource.ReserveState memory state = source.getReserveState();
+
+        assertTrue(state.active);
+        assertFalse(state.frozen);
+        assertTrue(state.paused);
+    }
+
+    function test_getReserveState_readsInactiveReserve() public {
+        pool.setReserve(address(usdc), CONFIG_INACTIVE, 0);
+        assertFalse(source.getReserveState().active);
+    }
+
+    function test_getReserveState_ignoresNeighbouringBits() public {
+        // Bits 58 (borrowing), 59 (stable borrowing) and 61 (isolation borrowable) are not flags we read
+        pool.setReserve(address(usdc), CONFIG_ACTIVE | (1 << 58) | (1 << 59) | (1 << 61), 0);
+
+        AaveV3YieldSource.ReserveState memory state = source.getReserveState();
+
+        assertFalse(state.frozen);
+        assertFalse(state.paused);
+    }
+
+    // ─── Supply Cap Tests ────────────────────────────────────────────────
+
+    function test_getReserveState_readsSupplyCapBits116To151() public {
+        assertEq(CONFIG_CAPPED, CONFIG_ACTIVE | (uint256(2_000_000) << 116));
+        pool.setReserve(address(usdc), CONFIG_CAPPED, 0);
+
+        // Whole tokens scaled by the reserve's 6 decimals
+        assertEq(source.getReserveState().supplyCap, 2_000_000e6);
+    }
+
+    function test_getReserveState_supplyCapMaxFills36Bits() public {
+        uint256 maxCap = (uint256(1) << 36) - 1;
+        pool.setReserve(address(usdc), CONFIG_ACTIVE | (maxCap << 116), 0);
+
+        assertEq(source.getReserveState().supplyCap, maxCap * 1e6);
+    }
+
+    function test_getReserveState_supplyCapIgnoresBorrowCapAndProtocolFee() public {
+        // Bit 115 is the top of the borrow cap (80–115); bit 152 starts the liquidation protocol fee
+        pool.setReserve(address(usdc), CONFIG_CAPPED | (uint256(1) << 115) | (uint256(1) << 152), 0);
+
+        assertEq(source.getReserveState().supplyCap, 2_000_000e6);
+    }
+
+    // ─── Total Supplied Tests ────────────────────────────────────────────
+
+    function test_getReserveState_countsTreasuryAccrualAtTheLiquidityIndex() public {
+        aUsdc.mint(address(0xCAFE), 1_500_000e6);
+        pool.setNormalizedIncome(address(usdc), (RAY * 11) / 10);
+        // 10,000 scaled treasury units at index 1.1 = 11,000 underlying
+        pool.setReserve(address(usdc), CONFIG_CAPPED, 10_000e6);
+
+        AaveV3YieldSource.ReserveState memory state = source.getReserveState();
+
+        assertEq(state.liquidityIndex, (RAY * 11) / 10);
+        assertEq(state.totalSupplied, 1_511_000e6);
+    }
+}
@@ -0,0 +1,150 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test} from "forge-std/Test.sol";
+import {MorphoBlueYieldSource, MarketParams, Market} from "../src/MorphoBlueYieldSource.sol";
+import {MockMorphoBlue, MockMorphoIrm, MockMorphoOracle} from "./mocks/MockMorphoBlue.sol";
+
+/// @title MorphoBlueYieldSource Tests
+/// @notice Tests for the adapter's CRE view functions against a mocked Morpho Blue market.
+contract MorphoBlueYieldSource_Test is Test {
+    MorphoBlueYieldSource internal source;
+    MockMorphoBlue internal morpho;
+    MockMorphoIrm internal irm;
+    MockMorphoOracle internal oracle;
+    MarketParams internal params;
+    bytes32 internal marketId;
+
+    address internal constant USDC = address(0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48);
+    address internal constant WETH = address(0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2);
+    address internal constant VAULT = address(0xBEEF);
+    uint256 internal constant LLTV = 0.86e18;
+    uint256 internal constant BORROW_RATE = 1_585_489_599; // ~5% APR per second, 1e18-scaled
+    uint256 internal constant ORACLE_PRICE = 3000e24; // 1 WETH = 3000 USDC, 1e36-scaled net of decimals
+
+    function setUp() public {
+        morpho = new MockMorphoBlue();
+        irm = new MockMorphoIrm();
+        oracle = new MockMorphoOracle(ORACLE_PRICE);
+        params = MarketParams({
+            loanToken: USDC, collateralToken: WETH, oracle: address(oracle), irm: address(irm), lltv: LLTV
+        });
+        source = new MorphoBlueYieldSource(address(morpho), params, VAULT);
+        marketId = keccak256(abi.encode(params));
+    }
+
+    function _setMarket(uint128 supplyAssets, uint128 supplyShares, uint128 borrowAssets, uint128 borrowShares)
+        internal
+    {
+        morpho.setMarket(
+            marketId,
+            Market({
+                totalSupplyAssets: supplyAssets,
+                totalSupplyShares: supplyShares,
+                totalBorrowAssets: borrowAssets,
+                totalBorrowShares: borrowShares,
+                lastUpdate: uint128(block.timestamp),
+                fee: 0
+            })
+        );
+        irm.setRate(BORROW_RATE, borrowAssets);
+    }
+
+    // ─── Constructor Tests ───────────────────────────────────────────────
+
+    function test_constructor_precomputesMarketId() public view {
+        assertEq(source.MARKET_ID(), marketId);
+        assertEq(source.LLTV(), LLTV);
+        assertEq(source.asset(), USDC);
+    }
+
+    // ─── getMarketState Tests ────────────────────────────────────────────
+
+    function test_getMarketState_returnsMarketTotals() public {
+        _setMarket(10_000_000e6, 10_000_000e12, 8_500_000e6, 8_400_000e12);
+
+        MorphoBlueYieldSource.MarketState memory state = source.getMarketState();
+
+        assertEq(state.totalSupplyAssets, 10_000_000e6);
+        assertEq(state.totalSupplyShares, 10_000_000e12);
+        assertEq(state.totalBorrowAssets, 8_500_000e6);
+        assertEq(state.totalBorrowShares, 8_400_000e12);
+    }
+
+    function test_getMarketState_returnsLltvRateAndPrice() public {
+        _setMarket(10_000_000e6, 10_000_000e12, 8_500_000e6, 8_400_000e12);
+
+        MorphoBlueYieldSource.MarketState memory state = source.getMarketState();
+
+        assertEq(state.lltv, LLTV, "LLTV comes from the market params");
+        assertEq(state.borrowRate, BORROW_RATE, "IRM sees the market totals");
+        assertEq(state.collateralPrice, ORACLE_PRICE);
+    }
+
+    function test_getMarketState_showsBadDebtAsLowerAssetsPerShare() public {
+        _setMarket(10_000_000e6, 10_000_000e12, 8_500_000e6, 8_400_000e12);
+        MorphoBlueYieldSource.MarketState memory before = source.getMarketState();
+
+        // Liquidation realizes 200k of bad debt: supply assets drop, supply shares do not
+        _setMarket(9_800_000e6, 10_000_000e12, 8_300_000e6, 8_200_000e12);
+        MorphoBlueYieldSource.MarketState memory afterLoss = source.getMarketState();
+
+        assertLt(
+            afterLoss.totalSupplyAssets * before.totalSupplyShares,
+            before.totalSupplyAssets * afterLoss.totalSupplyShares
+        );
+    }
+
+    function test_getMarketState_zeroSupplyMarket() public view {
+        MorphoBlueYieldSource.MarketState memory state = source.getMarketState();
+
+        assertEq(state.totalSupplyAssets, 0);
+        assertEq(state.totalSupplyShares, 0);
+        assertEq(state.totalBorrowAssets, 0);
+        assertEq(state.totalBorrowShares, 0);
+        assertEq(state.lltv, LLTV);
+        assertEq(source.getMarketUtilization(), 0, "No division by zero on an empty market");
+        assertEq(source.getAvailableLiquidity(), 0);
+        assertEq(source.balance(), 0);
+    }
+
+    function test_getMarketState_skipsMissingIrmAndOracle() public {
+        MarketParams memory idle =
+            MarketParams({loanToken: USDC, collateralToken: address(0), oracle: address(0), irm: address(0), lltv: 0});
+        MorphoBlueYieldSource idleSource = new MorphoBlueYieldSource(address(morpho), idle, VAULT);
+        morpho.setMarket(
+            keccak256(abi.encode(idle)),
+            Market({
+                totalSupplyAssets: 1_000e6,
+                totalSupplyShares: 1_000e12,
+                totalBorrowAssets: 0,
+                totalBorrowShares: 0,
+                lastUpdate: 0,
+                fee: 0
+            })
+        );
+
+        MorphoBlueYieldSource.MarketState memory state = idleSource.getMarketState();
+
+        assertEq(state.totalSupplyAssets, 1_000e6);
+        assertEq(state.borrowRate, 0);
+        assertEq(state.lltv, 0);
+        assertEq(state.collateralPrice, 0);
+    }
+
+    // ─── Utilization & Liquidity Tests ───────────────────────────────────
+
+    function test_getMarketUtilization_returnsBps() public {
+        _setMarket(10_000_000e6, 10_000_000e12, 8_500_000e6, 8_400_000e12);
+        assertEq(source.getMarketUtilization(), 8500);
+    }
+
+    function test_getAvailableLiquidity_cappedByMarketLiquidity() public {
+        _setMarket(10_000_000e6, 10_000_000e12, 9_900_000e6, 9_800_000e12);
+        // Our shares are worth ~1M but the market only has 100k unborrowed
+        morpho.setSupplyShares(marketId, address(source), 1_000_000e12);
+
+        assertApproxEqAbs(source.balance(), 1_000_000e6, 1);
+        assertEq(source.getAvailableLiquidity(), 100_000e6);
+    }
+}
@@ -0,0 +1,124 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {Test, stdError} from "forge-std/Test.sol";
+import {RiskModel} from "../src/libraries/RiskModel.sol";
+
+/// @title RiskModel Golden Vector Tests
+/// @notice Runs RiskModel against test/vectors/risk-model.json. The CRE workflow's
+///         TypeScript ports (cre/risk-monitor-workflow/risk-math.ts) run against the
+///         same table, so both sides agree on every vector, overflow reverts included.
+contract RiskModelVectors_Test is Test {
+    string internal json;
+
+    function setUp() public {
+        json = vm.readFile(string.concat(vm.projectRoot(), "/test/vectors/risk-model.json"));
+    }
+
+    // ─── External Wrappers (so overflow reverts can be expected) ─────────
+
+    function hqla(uint256 balance, uint16 haircutBps) external pure returns (uint256) {
+        return RiskModel.computeSourceHQLA(balance, haircutBps);
+    }
+
+    function stressedOutflow(uint256 balance, uint16 stressOutflowBps) external pure returns (uint256) {
+        return RiskModel.computeSourceStressedOutflow(balance, stressOutflowBps);
+    }
+
+    function concentrationBreached(uint256 sourceBalance, uint256 totalAssets, uint16 maxConcentrationBps)
+        external
+        pure
+        returns (bool)
+    {
+        return RiskModel.isConcentrationBreached(sourceBalance, totalAssets, maxConcentrationBps);
+    }
+
+    // ─── Helpers ─────────────────────────────────────────────────────────
+
+    function _vector(string memory fn, uint256 i) internal pure returns (string memory) {
+        return string.concat(".", fn, "[", vm.toString(i), "]");
+    }
+
+    function _uint(string memory key) internal view returns (uint256) {
+        return vm.parseUint(vm.parseJsonString(json, key));
+    }
+
+    function _uint16(string memory key) internal view returns (uint16) {
+        // forge-lint: disable-next-line(unsafe-typecast)
+        // casting to 'uint16' is safe because every bps field in the table fits in uint16
+        return uint16(vm.parseJsonUint(json, key));
+    }
+
+    function _reverts(string memory v) internal view returns (bool) {
+        return vm.keyExistsJson(json, string.concat(v, ".reverts"));
+    }
+
+    // ─── Vectors ─────────────────────────────────────────────────────────
+
+    function test_computeSourceHQLA_matchesVectors() public {
+        for (uint256 i = 0; vm.keyExistsJson(json, _vector("computeSourceHQLA", i)); i++) {
+            string memory v = _vector("computeSourceHQLA", i);
+            uint256 balance = _uint(string.concat(v, ".balance"));
+            uint16 haircutBps = _uint16(string.concat(v, ".haircutBps"));
+
+            if (_reverts(v)) {
+                vm.expectRevert(stdError.arithmeticError);
+                this.hqla(balance, haircutBps);
+            } else {
+                assertEq(this.hqla(balance, haircutBps), _uint(string.concat(v, ".expected")), v);
+            }
+        }
+    }
+
+    function test_computeSourceStressedOutflow_matchesVectors() public {
+        for (uint256 i = 0; vm.keyExistsJson(json, _vector("computeSourceStressedOutflow", i)); i++) {
+            string memory v = _vector("computeSourceStressedOutflow", i);
+            uint256 balance = _uint(string.concat(v, ".balance"));
+            uint16 stressOutflowBps = _uint16(string.concat(v, ".stressOutflowBps"));
+
+            if (_reverts(v)) {
+                vm.expectRevert(stdError.arithmeticError);
+                this.stressedOutflow(balance, stressOutflowBps);
+            } else {
+                assertEq(this.stressedOutflow(balance, stressOutflowBps), _uint(string.concat(v, ".expected")), v);
+            }
+        }
+    }
+
+    function test_isConcentrationBreached_matchesVectors() public {
+        for (uint256 i = 0; vm.keyExistsJson(json, _vector("isConcentrationBreached", i)); i++) {
+            string memory v = _vector("isConcentrationBreached", i);
+            uint256 sourceBalance = _uint(string.concat(v, ".sourceBalance"));
+            uint256 totalAssets = _uint(string.concat(v, ".totalAssets"));
+            uint16 maxConcentrationBps = _uint16(string.concat(v, ".maxConcentrationBps"));
+
+            if (_reverts(v)) {
+                vm.expectRevert(stdError.arithmeticError);
+                this.concentrationBreached(sourceBalance, totalAssets, maxConcentrationBps);
+            } else {
+                assertEq(
+                    this.concentrationBreached(sourceBalance, totalAssets, maxConcentrationBps),
+                    vm.parseJsonBool(json, string.concat(v, ".expected")),
+                    v
+                );
+            }
+        }
+    }
+
+    function test_validateParams_matchesVectors() public view {
+        for (uint256 i = 0; vm.keyExistsJson(json, _vector("validateParams", i)); i++) {
+            string memory v = _vector("validateParams", i);
+            RiskModel.SourceRiskParams memory params = RiskModel.SourceRiskParams({
+                liquidityHaircutBps: _uint16(string.concat(v, ".liquidityHaircutBps")),
+                stressOutflowBps: _uint16(string.concat(v, ".stressOutflowBps")),
+                maxConcentrationBps: _uint16(string.concat(v, ".maxConcentrationBps")),
+                lastUpdated: 0,
+                // forge-lint: disable-next-line(unsafe-typecast)
+                // casting to 'uint8' is safe because every riskTier in the table fits in uint8
+                riskTier: uint8(vm.parseJsonUint(json, string.concat(v, ".riskTier")))
+            });
+
+            assertEq(RiskModel.validateParams(params), vm.parseJsonBool(json, string.concat(v, ".expected")), v);
+        }
+    }
+}
@@ -0,0 +1,298 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {StreamVaultTestBase} from "./StreamVault.t.sol";
+import {StreamVault} from "../src/StreamVault.sol";
+import {IReceiver} from "../src/interfaces/IReceiver.sol";
+import {IRiskReceiver} from "../src/interfaces/IRiskReceiver.sol";
+import {RiskModel} from "../src/libraries/RiskModel.sol";
+import {RiskReceiverLib} from "../src/libraries/RiskReceiverLib.sol";
+
+/// @dev Reports are encoded exactly as cre/risk-monitor-workflow/risk-model.ts encodes them.
+contract StreamVault_RiskReceiver_Test is StreamVaultTestBase {
+    address internal forwarder = makeAddr("forwarder");
+    address internal workflowOwner = makeAddr("workflowOwner");
+    bytes32 internal constant WORKFLOW_ID = keccak256("risk-monitor");
+    bytes32 internal constant POLICY_HASH = keccak256("policy");
+    bytes internal metadata;
+
+    function setUp() public override {
+        super.setUp();
+        metadata = _metadata(WORKFLOW_ID, workflowOwner);
+        vm.prank(operator);
+        vault.setRiskReportSource(forwarder, workflowOwner, WORKFLOW_ID);
+    }
+
+    // ─── Helpers ─────────────────────────────────────────────────────────
+
+    function _deliver(uint8 action, bytes memory data) internal {
+        vm.prank(forwarder);
+        vault.onReport(metadata, abi.encode(action, data));
+    }
+
+    /// @dev The KeystoneForwarder's metadata: workflowId, workflowName, workflowOwner, reportName
+    function _metadata(bytes32 workflowId, address workflowOwner_) internal pure returns (bytes memory) {
+        return abi.encodePacked(workflowId, bytes10("risk-mon"), workflowOwner_, bytes2(0x0001));
+    }
+
+    function _params(uint16 haircut, uint8 tier) internal pure returns (RiskModel.SourceRiskParams memory) {
+        return RiskModel.SourceRiskParams({
+            liquidityHaircutBps: haircut,
+            stressOutflowBps: 3_000,
+            maxConcentrationBps: 6_000,
+            lastUpdated: 0,
+            riskTier: tier
+        });
+    }
+
+    function _updateParams(RiskModel.SourceRiskParams memory params, uint8 status, uint256 totalAssets_)
+        internal
+        view
+        returns (bytes memory)
+    {
+        address[] memory sources = new address[](1);
+        sources[0] = address(yieldSource);
+        RiskModel.SourceRiskParams[] memory all = new RiskModel.SourceRiskParams[](1);
+        all[0] = params;
+        IRiskReceiver.SourceObservation[] memory observed = new IRiskReceiver.SourceObservation[](1);
+        observed[0] = IRiskReceiver.SourceObservation(address(yieldSource), 4_200, 1_000e6);
+        return abi.encode(
+            sources,
+            all,
+            _snapshot(status),
+            "bank_run",
+            POLICY_HASH,
+            false,
+            IRiskReceiver.RiskObservation(uint64(block.timestamp), totalAssets_, observed)
+        );
+    }
+
+    function _snapshot(uint8 status) internal view returns (RiskModel.RiskSnapshot memory) {
+        return RiskModel.RiskSnapshot(14_000, 1_500, uint64(block.timestamp), status);
+    }
+
+    function _emergency(uint8 severity, uint64 redSince, address unwindSource, uint256 unwindAmount)
+        internal
+        pure
+        returns (bytes memory)
+    {
+        return abi.encode(severity, POLICY_HASH, false, redSince, unwindSource, unwindAmount);
+    }
+
+    // ─── Access ──────────────────────────────────────────────────────────
+
+    function test_onReport_revertsForNonForwarder() public {
+        vm.prank(alice);
+        vm.expectRevert(RiskReceiverLib.OnlyRiskForwarder.selector);
+        vault.onReport(metadata, abi.encode(uint8(0), _updateParams(_params(500, 0), 0, 1)));
+    }
+
+    function test_onReport_revertsForForeignWorkflowId() public {
+        bytes32 foreignId = keccak256("other-workflow");
+        vm.prank(forwarder);
+        vm.expectRevert(abi.encodeWithSelector(RiskReceiverLib.UnexpectedWorkflow.selector, foreignId, workflowOwner));
+        vault.onReport(_metadata(foreignId, workflowOwner), abi.encode(uint8(0), _updateParams(_params(500, 0), 0, 1)));
+    }
+
+    function test_onReport_revertsForForeignWorkflowOwner() public {
+        vm.prank(forwarder);
+        vm.expectRevert(abi.encodeWithSelector(RiskReceiverLib.UnexpectedWorkflow.selector, WORKFLOW_ID, alice));
+        vault.onReport(_metadata(WORKFLOW_ID, alice), abi.encode(uint8(0), _updateParams(_params(500, 0), 0, 1)));
+    }
+
+    function test_onReport_revertsOnShortMetadata() public {
+        vm.prank(forwarder);
+        vm.expectRevert(RiskReceiverLib.InvalidReportMetadata.selector);
+        vault.onReport("", abi.encode(uint8(0), _updateParams(_params(500, 0), 0, 1)));
+    }
+
+    function test_setRiskReportSource_onlyOperator() public {
+        vm.prank(alice);
+        vm.expectRevert(StreamVault.OnlyOperator.selector);
+        vault.setRiskReportSource(alice, alice, bytes32(0));
+
+        (address storedForwarder, address storedOwner, bytes32 storedId) = vault.riskReportSource();
+        assertEq(storedForwarder, forwarder);
+        assertEq(storedOwner, workflowOwner);
+        assertEq(storedId, WORKFLOW_ID);
+    }
+
+    function test_supportsInterface_IReceiver() public view {
+        assertTrue(vault.supportsInterface(type(IReceiver).interfaceId));
+    }
+
+    function test_onReport_revertsOnUnknownAction() public {
+        vm.prank(forwarder);
+        vm.expectRevert(abi.encodeWithSelector(RiskReceiverLib.UnknownRiskAction.selector, uint8(7)));
+        vault.onReport(metadata, abi.encode(uint8(7), bytes("")));
+    }
+
+    // ─── UPDATE_PARAMS ───────────────────────────────────────────────────
+
+    function test_updateParams_storesParamsSnapshotAndObservation() public {
+        _deliver(0, _updateParams(_params(500, 1), 1, 1_000e6));
+
+        RiskModel.SourceRiskParams memory stored = vault.getSourceRiskParams(address(yieldSource));
+        assertEq(stored.liquidityHaircutBps, 500);
+        assertEq(stored.riskTier, 1);
+        assertEq(stored.lastUpdated, block.timestamp);
+
+        RiskModel.RiskSnapshot memory snapshot = vault.getRiskSnapshot();
+        assertEq(snapshot.stressedLCR, 14_000);
+        assertEq(snapshot.systemStatus, 1);
+
+        IRiskReceiver.RiskObservation[] memory observations = vault.getRiskObservations();
+        assertEq(observations.length, 1);
+        assertEq(observations[0].totalAssets, 1_000e6);
+        assertEq(observations[0].sources.length, 1);
+        assertEq(observations[0].sources[0].source, address(yieldSource));
+        assertEq(observations[0].sources[0].utilizationBps, 4_200);
+    }
+
+    function test_updateParams_revertsOnInvalidParams() public {
+        vm.prank(forwarder);
+        vm.expectRevert(abi.encodeWithSelector(RiskReceiverLib.InvalidRiskParams.selector, address(yieldSource)));
+        vault.onReport(metadata, abi.encode(uint8(0), _updateParams(_params(9_501, 0), 0, 1)));
+    }
+
+    function test_observations_ringKeepsNewestOldestFirst() public {
+        uint256 total = RiskReceiverLib.MAX_OBSERVATIONS + 3;
+        for (uint256 i = 1; i <= total; ++i) {
+            _deliver(0, _updateParams(_params(500, 0), 0, i));
+        }
+
+        IRiskReceiver.RiskObservation[] memory observations = vault.getRiskObservations();
+        assertEq(observations.length, RiskReceiverLib.MAX_OBSERVATIONS);
+        assertEq(observations[0].totalAssets, 4);
+        assertEq(observations[observations.length - 1].totalAssets, total);
+        assertEq(observations[observations.length - 1].sources.length, 1);
+    }
+
+    // ─── DEFENSIVE_REBALANCE ─────────────────────────────────────────────
+
+    function test_rebalance_withdrawsLegsToIdle() public {
+        _mintAndDeposit(alice, INITIAL_DEPOSIT);
+        _deployToYield(0, 800e6);
+
+        RiskReceiverLib.RebalanceLeg[] memory legs = new RiskReceiverLib.RebalanceLeg[](1);
+        legs[0] = RiskReceiverLib.RebalanceLeg(address(yieldSource), 300e6);
+        _deliver(1, abi.encode(legs, POLICY_HASH, false, _snapshot(2)));
+
+        assertEq(vault.idleBalance(), 500e6);
+        assertEq(vault.getRiskSnapshot().systemStatus, 2);
+    }
+
+    function test_rebalance_revertsOnUnknownSource() public {
+        RiskReceiverLib.RebalanceLeg[] memory legs = new RiskReceiverLib.RebalanceLeg[](1);
+        legs[0] = RiskReceiverLib.RebalanceLeg(alice, 1);
+
+        vm.prank(forwarder);
+        vm.expectRevert(abi.encodeWithSelector(RiskReceiverLib.UnknownYieldSource.selector, alice));
+        vault.onReport(metadata, abi.encode(uint8(1), abi.encode(legs, POLICY_HASH, false, _snapshot(2))));
+    }
+
+    function test_rebalance_revertsOnInvalidSnapshot() public {
+        _mintAndDeposit(alice, INITIAL_DEPOSIT);
+        _deployToYield(0, 800e6);
+
+        RiskReceiverLib.RebalanceLeg[] memory legs = new RiskReceiverLib.RebalanceLeg[](1);
+        legs[0] = RiskReceiverLib.RebalanceLeg(address(yieldSource), 300e6);
+
+        vm.prank(forwarder);
+        vm.expectRevert(RiskReceiverLib.InvalidRiskSnapshot.selector);
+        vault.onReport(metadata, abi.encode(uint8(1), abi.encode(legs, POLICY_HASH, false, _snapshot(4))));
+    }
+
+    // ─── EMERGENCY_PAUSE ─────────────────────────────────────────────────
+
+    function test_emergency_haltDepositsZeroesMaxDeposit() public {
+        _deliver(2, _emergency(0, uint64(block.timestamp), address(0), 0));
+
+        (uint8 severity, uint64 redSince) = vault.getEmergencyState();
+        assertEq(severity, 0);
+        assertEq(redSince, block.timestamp);
+        assertEq(vault.maxDeposit(alice), 0);
+        assertEq(vault.maxMint(alice), 0);
+    }
+
+    function test_emergency_haltDeploymentsBlocksDeployToYield() public {
+        _mintAndDeposit(alice, INITIAL_DEPOSIT);
+        _deliver(2, _emergency(1, uint64(block.timestamp), address(0), 0));
+
+        vm.prank(operator);
+        vm.expectRevert(RiskReceiverLib.DeploymentsHalted.selector);
+        vault.deployToYield(0, 100e6);
+    }
+
+    function test_emergency_partialUnwindWithdrawsNamedAmount() public {
+        _mintAndDeposit(alice, INITIAL_DEPOSIT);
+        _deployToYield(0, 800e6);
+
+        _deliver(2, _emergency(2, uint64(block.timestamp), address(yieldSource), 400e6));
+
+        assertEq(vault.idleBalance(), 600e6);
+        assertFalse(vault.paused());
+    }
+
+    function test_emergency_partialUnwindRecordsRungWhenSourceCannotPay() public {
+        _mintAndDeposit(alice, INITIAL_DEPOSIT);
+        _deployToYield(0, 800e6);
+        vm.mockCallRevert(address(yieldSource), abi.encodeWithSelector(yieldSource.withdraw.selector), "illiquid");
+
+        _deliver(2, _emergency(2, uint64(block.timestamp), address(yieldSource), 800e6));
+
+        (uint8 severity, uint64 redSince) = vault.getEmergencyState();
+        assertEq(severity, 2);
+        assertEq(redSince, block.timestamp);
+        assertEq(yieldSource.balance(), 800e6);
+        assertEq(vault.maxDeposit(alice), 0);
+    }
+
+    function test_emergency_fullUnwindEmptiesSourcesAndPauses() public {
+        _mintAndDeposit(alice, INITIAL_DEPOSIT);
+        _deployToYield(0, 800e6);
+
+        _deliver(2, _emergency(3, uint64(block.timestamp), address(0), 0));
+
+        assertEq(yieldSource.balance(), 0);
+        assertTrue(vault.paused());
+    }
+
+    function test_emergency_revertsWithoutRedSince() public {
+        vm.prank(forwarder);
+        vm.expectRevert(RiskReceiverLib.InvalidEmergencyState.selector);
+        vault.onReport(metadata, abi.encode(uint8(2), _emergency(1, 0, address(0), 0)));
+    }
+
+    function test_emergency_clearedByNextNonPauseReport() public {
+        _deliver(2, _emergency(1, uint64(block.timestamp), address(0), 0));
+        _deliver(0, _updateParams(_params(500, 1), 1, 1_000e6));
+
+        (uint8 severity, uint64 redSince) = vault.getEmergencyState();
+        assertEq(severity, 0);
+        assertEq(redSince, 0);
+        assertGt(vault.maxDeposit(alice), 0);
+    }
+
+    // ─── SETTLE_EPOCH ────────────────────────────────────────────────────
+
+    function test_settleEpoch_settlesCurrentEpoch() public {
+        _mintAndDeposit(alice, INITIAL_DEPOSIT);
+        vm.prank(alice);
+        vault.requestWithdraw(100e6);
+        _warpForSettle();
+
+        _deliver(3, abi.encode(uint256(0), POLICY_HASH, false, _snapshot(1)));
+
+        assertEq(vault.currentEpochId(), 1);
+        assertEq(vault.getRiskSnapshot().systemStatus, 1);
+    }
+
+    function test_settleEpoch_revertsOnStaleEpochId() public {
+        _warpForSettle();
+
+        vm.prank(forwarder);
+        vm.expectRevert(abi.encodeWithSelector(RiskReceiverLib.StaleSettleEpoch.selector, uint256(1), uint256(0)));
+        vault.onReport(metadata, abi.encode(uint8(3), abi.encode(uint256(1), POLICY_HASH, false, _snapshot(0))));
+    }
+}
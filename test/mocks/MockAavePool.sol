@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {ReserveData} from "../../src/AaveV3YieldSource.sol";
+
+/// @title MockAavePool
+/// @notice Mock Aave V3 Pool exposing the reserve getters the adapter's CRE view reads.
+contract MockAavePool {
+    mapping(address => ReserveData) internal _reserves;
+    mapping(address => uint256) internal _normalizedIncome;
+
+    function getReserveData(address asset) external view returns (ReserveData memory) {
+        return _reserves[asset];
+    }
+
+    function getReserveNormalizedIncome(address asset) external view returns (uint256) {
+        return _normalizedIncome[asset];
+    }
+
+    /// @notice Set a reserve's configuration word and treasury accrual (for testing).
+    function setReserve(address asset, uint256 configuration, uint128 accruedToTreasury) external {
+        _reserves[asset].configuration = configuration;
+        _reserves[asset].accruedToTreasury = accruedToTreasury;
+    }
+
+    /// @notice Set a reserve's normalized income, in ray (for testing).
+    function setNormalizedIncome(address asset, uint256 income) external {
+        _normalizedIncome[asset] = income;
+    }
+}
@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {MarketParams, Market} from "../../src/MorphoBlueYieldSource.sol";
+
+/// @title MockMorphoBlue
+/// @notice Mock Morpho Blue core exposing the `market` and `position` getters the adapter reads.
+contract MockMorphoBlue {
+    mapping(bytes32 => Market) internal _markets;
+    mapping(bytes32 => mapping(address => uint256)) internal _supplyShares;
+
+    function market(bytes32 id)
+        external
+        view
+        returns (
+            uint128 totalSupplyAssets,
+            uint128 totalSupplyShares,
+            uint128 totalBorrowAssets,
+            uint128 totalBorrowShares,
+            uint128 lastUpdate,
+            uint128 fee
+        )
+    {
+        Market memory m = _markets[id];
+        return (m.totalSupplyAssets, m.totalSupplyShares, m.totalBorrowAssets, m.totalBorrowShares, m.lastUpdate, m.fee);
+    }
+
+    function position(bytes32 id, address user)
+        external
+        view
+        returns (uint256 supplyShares, uint128 borrowShares, uint128 collateral)
+    {
+        return (_supplyShares[id][user], 0, 0);
+    }
+
+    /// @notice Set a market's totals (for testing).
+    function setMarket(bytes32 id, Market memory m) external {
+        _markets[id] = m;
+    }
+
+    /// @notice Set a user's supply shares (for testing).
+    function setSupplyShares(bytes32 id, address user, uint256 shares) external {
+        _supplyShares[id][user] = shares;
+    }
+}
+
+/// @title MockMorphoIrm
+/// @notice Mock interest rate model returning a fixed borrow rate; reverts unless it sees the expected market.
+contract MockMorphoIrm {
+    uint256 public rate;
+    uint128 public expectedTotalBorrowAssets;
+
+    function setRate(uint256 _rate, uint128 _expectedTotalBorrowAssets) external {
+        rate = _rate;
+        expectedTotalBorrowAssets = _expectedTotalBorrowAssets;
+    }
+
+    function borrowRateView(MarketParams memory, Market memory m) external view returns (uint256) {
+        require(m.totalBorrowAssets == expectedTotalBorrowAssets, "MockMorphoIrm: unexpected market");
+        return rate;
+    }
+}
+
+/// @title MockMorphoOracle
+/// @notice Mock Morpho market oracle with a settable 1e36-scaled price.
+contract MockMorphoOracle {
+    uint256 public price;
+
+    constructor(uint256 _price) {
+        price = _price;
+    }
+
+    function setPrice(uint256 _price) external {
+        price = _price;
+    }
+}